@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { supabase } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
 import { Button } from './ui/button';
@@ -6,22 +6,42 @@ import { Textarea } from './ui/textarea';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { Label } from './ui/label';
 import { Sparkles, Loader2, CheckCircle2 } from 'lucide-react';
+import { validatePost } from '../services/platforms';
+import { ValidationIssues } from './ValidationIssues';
+import { AccountPicker, type PickableAccount } from './AccountPicker';
 
 export function AICreator() {
   const { user } = useAuth();
   const [prompt, setPrompt] = useState('');
   const [generatedContent, setGeneratedContent] = useState('');
+  const [accounts, setAccounts] = useState<PickableAccount[]>([]);
+  const [selectedAccountIds, setSelectedAccountIds] = useState<string[]>([]);
   const [selectedPlatforms, setSelectedPlatforms] = useState<string[]>([]);
   const [loading, setLoading] = useState(false);
   const [saving, setSaving] = useState(false);
   const [saved, setSaved] = useState(false);
 
-  const platforms = [
-    { id: 'twitter', name: 'Twitter', icon: '𝕏' },
-    { id: 'linkedin', name: 'LinkedIn', icon: '💼' },
-    { id: 'instagram', name: 'Instagram', icon: '📷' },
-    { id: 'facebook', name: 'Facebook', icon: '📘' },
-  ];
+  useEffect(() => {
+    if (!user) return;
+
+    supabase
+      .from('social_accounts')
+      .select('id, platform, account_name, account_handle, instance_url, health_state')
+      .eq('user_id', user.id)
+      .eq('is_connected', true)
+      .order('created_at', { ascending: true })
+      .then(({ data, error }) => {
+        if (error) {
+          console.error('Error loading accounts:', error);
+          return;
+        }
+        setAccounts(data || []);
+      });
+  }, [user]);
+
+  // A draft is never published as-is, so errors are shown without blocking
+  // the save.
+  const validationIssues = validatePost(selectedPlatforms, { text: generatedContent });
 
   const handleGenerate = async () => {
     setLoading(true);
@@ -57,13 +77,14 @@ export function AICreator() {
   };
 
   const handleSave = async () => {
-    if (!generatedContent || selectedPlatforms.length === 0) return;
+    if (!generatedContent || selectedAccountIds.length === 0) return;
 
     setSaving(true);
     try {
       const { error } = await supabase.from('content_posts').insert({
         user_id: user!.id,
         content: generatedContent,
+        account_ids: selectedAccountIds,
         platforms: selectedPlatforms,
         status: 'draft',
       });
@@ -75,6 +96,7 @@ export function AICreator() {
         setSaved(false);
         setGeneratedContent('');
         setPrompt('');
+        setSelectedAccountIds([]);
         setSelectedPlatforms([]);
       }, 2000);
     } catch (error) {
@@ -84,12 +106,9 @@ export function AICreator() {
     }
   };
 
-  const togglePlatform = (platformId: string) => {
-    setSelectedPlatforms((prev) =>
-      prev.includes(platformId)
-        ? prev.filter((p) => p !== platformId)
-        : [...prev, platformId]
-    );
+  const selectAccounts = (accountIds: string[], platforms: string[]) => {
+    setSelectedAccountIds(accountIds);
+    setSelectedPlatforms(platforms);
   };
 
   return (
@@ -151,28 +170,19 @@ export function AICreator() {
             />
 
             <div>
-              <Label>Select Platforms</Label>
-              <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mt-2">
-                {platforms.map((platform) => (
-                  <button
-                    key={platform.id}
-                    onClick={() => togglePlatform(platform.id)}
-                    className={`p-4 border-2 rounded-lg transition-all ${
-                      selectedPlatforms.includes(platform.id)
-                        ? 'border-blue-600 bg-blue-50'
-                        : 'border-gray-200 hover:border-gray-300'
-                    }`}
-                  >
-                    <div className="text-2xl mb-1">{platform.icon}</div>
-                    <div className="text-sm font-medium">{platform.name}</div>
-                  </button>
-                ))}
-              </div>
+              <Label>Select Accounts</Label>
+              <AccountPicker
+                accounts={accounts}
+                selected={selectedAccountIds}
+                onChange={selectAccounts}
+              />
             </div>
 
+            <ValidationIssues issues={validationIssues} />
+
             <Button
               onClick={handleSave}
-              disabled={saving || saved || selectedPlatforms.length === 0}
+              disabled={saving || saved || selectedAccountIds.length === 0}
               className="w-full"
             >
               {saved ? (
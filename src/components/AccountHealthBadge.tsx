@@ -0,0 +1,29 @@
+import { AlertTriangle, CheckCircle2, XCircle } from 'lucide-react';
+import type { AccountHealth } from '../services/platforms';
+
+const HEALTH_BADGES: Record<AccountHealth, { label: string; className: string }> = {
+  healthy: { label: 'Connected', className: 'bg-green-100 text-green-700' },
+  expiring: { label: 'Expiring soon', className: 'bg-amber-100 text-amber-700' },
+  needs_reconnect: { label: 'Needs reconnect', className: 'bg-red-100 text-red-700' },
+  revoked: { label: 'Access revoked', className: 'bg-red-100 text-red-700' },
+};
+
+interface AccountHealthBadgeProps {
+  state: AccountHealth;
+  error?: string | null;
+}
+
+export function AccountHealthBadge({ state, error }: AccountHealthBadgeProps) {
+  const badge = HEALTH_BADGES[state];
+  const Icon = state === 'healthy' ? CheckCircle2 : state === 'expiring' ? AlertTriangle : XCircle;
+
+  return (
+    <span
+      title={error ?? undefined}
+      className={`inline-flex items-center gap-1 px-2 py-1 text-xs font-medium rounded ${badge.className}`}
+    >
+      <Icon className="w-3 h-3" />
+      {badge.label}
+    </span>
+  );
+}
@@ -0,0 +1,93 @@
+import { AlertTriangle } from 'lucide-react';
+import { listPlatformAdapters, type AccountHealth } from '../services/platforms';
+import { ReconnectButton } from './ReconnectButton';
+
+export interface PickableAccount {
+  id: string;
+  platform: string;
+  account_name: string;
+  account_handle: string;
+  instance_url?: string | null;
+  health_state?: AccountHealth;
+}
+
+const HEALTH_WARNINGS: Partial<Record<AccountHealth, string>> = {
+  expiring: 'Access expires soon',
+  needs_reconnect: 'Publishing will fail until reconnected',
+  revoked: 'Access was revoked',
+};
+
+interface AccountPickerProps {
+  accounts: PickableAccount[];
+  selected: string[];
+  // `platforms` is the set of platforms behind the selected accounts, in the
+  // order the adapters are listed.
+  onChange: (accountIds: string[], platforms: string[]) => void;
+  onReconnected?: () => void;
+}
+
+export function AccountPicker({ accounts, selected, onChange, onReconnected }: AccountPickerProps) {
+  const adapters = listPlatformAdapters().filter((adapter) =>
+    accounts.some((account) => account.platform === adapter.id)
+  );
+
+  if (adapters.length === 0) {
+    return (
+      <p className="mt-2 text-sm text-gray-600 dark:text-gray-400">
+        Connect an account under Social Accounts to publish to it.
+      </p>
+    );
+  }
+
+  const toggle = (accountId: string) => {
+    const ids = selected.includes(accountId)
+      ? selected.filter((id) => id !== accountId)
+      : [...selected, accountId];
+    const platforms = adapters
+      .filter((adapter) =>
+        accounts.some((account) => account.platform === adapter.id && ids.includes(account.id))
+      )
+      .map((adapter) => adapter.id);
+    onChange(ids, platforms);
+  };
+
+  return (
+    <div className="space-y-3 mt-2">
+      {adapters.map((adapter) => (
+        <div key={adapter.id}>
+          <p className="text-sm font-medium text-gray-900 dark:text-white mb-2">{adapter.name}</p>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            {accounts
+              .filter((account) => account.platform === adapter.id)
+              .map((account) => {
+                const warning = account.health_state && HEALTH_WARNINGS[account.health_state];
+                return (
+                  <div key={account.id}>
+                    <button
+                      type="button"
+                      onClick={() => toggle(account.id)}
+                      className={`w-full p-3 border-2 rounded-lg text-left transition-all ${
+                        selected.includes(account.id)
+                          ? 'border-blue-600 bg-blue-50 dark:bg-blue-900/30 dark:text-white'
+                          : 'border-gray-200 dark:border-gray-700 hover:border-gray-300 dark:hover:border-gray-600 dark:text-gray-300'
+                      }`}
+                    >
+                      <div className="font-medium">{account.account_name}</div>
+                      <div className="text-xs text-gray-500 dark:text-gray-400">{account.account_handle}</div>
+                    </button>
+                    {warning && (
+                      <div className="mt-1 flex items-center gap-2 text-xs text-amber-700 dark:text-amber-400">
+                        <AlertTriangle className="w-3 h-3" />
+                        <span className="flex-1">{warning}</span>
+                        <ReconnectButton account={account} onReconnected={onReconnected} />
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
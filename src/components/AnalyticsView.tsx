@@ -2,15 +2,15 @@ import { useEffect, useState } from 'react';
 import { supabase } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
-import { TrendingUp, Heart, MessageCircle, Share2, Eye, Loader2, Twitter, Linkedin, Instagram, Facebook, Flame } from 'lucide-react';
-
-type Platform = 'all' | 'twitter' | 'linkedin' | 'instagram' | 'facebook';
+import { TrendingUp, Heart, MessageCircle, Share2, Eye, Loader2, Flame } from 'lucide-react';
+import { listPlatformAdapters } from '../services/platforms';
+import { PlatformIcon } from './PlatformIcon';
 
 export function AnalyticsView() {
   const { user } = useAuth();
   const [loading, setLoading] = useState(true);
   const [analytics, setAnalytics] = useState<any[]>([]);
-  const [selectedPlatform, setSelectedPlatform] = useState<Platform>('all');
+  const [selectedPlatform, setSelectedPlatform] = useState('all');
 
   useEffect(() => {
     if (user) {
@@ -51,11 +51,8 @@ export function AnalyticsView() {
   );
 
   const platforms = [
-    { id: 'all' as Platform, name: 'All Platforms', icon: TrendingUp },
-    { id: 'twitter' as Platform, name: 'Twitter', icon: Twitter },
-    { id: 'linkedin' as Platform, name: 'LinkedIn', icon: Linkedin },
-    { id: 'instagram' as Platform, name: 'Instagram', icon: Instagram },
-    { id: 'facebook' as Platform, name: 'Facebook', icon: Facebook },
+    { id: 'all', name: 'All Platforms', icon: '' },
+    ...listPlatformAdapters(),
   ];
 
   if (loading) {
@@ -75,7 +72,6 @@ export function AnalyticsView() {
 
       <div className="mb-6 flex gap-2 overflow-x-auto pb-2">
         {platforms.map((platform) => {
-          const Icon = platform.icon;
           const isActive = selectedPlatform === platform.id;
           return (
             <button
@@ -87,7 +83,11 @@ export function AnalyticsView() {
                   : 'bg-white text-gray-700 border border-gray-200 hover:border-blue-300 hover:bg-blue-50'
               }`}
             >
-              <Icon className="w-4 h-4" />
+              {platform.id === 'all' ? (
+                <TrendingUp className="w-4 h-4" />
+              ) : (
+                <PlatformIcon platform={platform} />
+              )}
               {platform.name}
             </button>
           );
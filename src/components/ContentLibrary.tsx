@@ -3,12 +3,65 @@ import { supabase } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { Button } from './ui/button';
-import { FileText, Loader2, Trash2 } from 'lucide-react';
+import { Textarea } from './ui/textarea';
+import { CloudOff, FileText, Loader2, Pencil, RotateCcw, Trash2 } from 'lucide-react';
+import { PublicationStatus, publicationsSelect, type Publication } from './PublicationStatus';
+import { TargetAccounts, targetAccountsSelect, type TargetAccount } from './TargetAccounts';
+import {
+  getPlatformAdapter,
+  latestAttempts,
+  publishedPostActions,
+  type PlatformVariant,
+} from '../services/platforms';
+import {
+  deletePublication,
+  editPublication,
+  type PublicationActionResult,
+} from '../services/socialMediaAPI';
+
+interface LibraryPost {
+  id: string;
+  content: string;
+  platform_variants?: Record<string, PlatformVariant>;
+  post_publications?: Publication[];
+}
+
+// Publications whose posts are still up on their network.
+function livePublications(post: LibraryPost): Publication[] {
+  return latestAttempts(post.post_publications || []).filter(
+    (p) => (p.status === 'published' || p.status === 'partial') && !p.deleted_at
+  );
+}
+
+function editableText(post: LibraryPost, platform: string): string {
+  return post.platform_variants?.[platform]?.text ?? post.content;
+}
+
+function describeActions(platform: string): string {
+  const { canDelete, canEdit } = publishedPostActions(platform);
+  const actions = [canEdit && 'edit', canDelete && 'delete'].filter(Boolean);
+  return `${getPlatformAdapter(platform)?.name ?? platform}: ${
+    actions.length > 0 ? actions.join(', ') : 'view only'
+  }`;
+}
+
+// `results` are in the same order as the publications they were run on.
+function failureMessages(targets: Publication[], results: PublicationActionResult[]): string[] {
+  return results
+    .map((result, index) => ({ result, platform: targets[index].platform }))
+    .filter(({ result }) => !result.success)
+    .map(({ result, platform }) => `${getPlatformAdapter(platform)?.name ?? platform}: ${result.error}`);
+}
 
 export function ContentLibrary() {
   const { user } = useAuth();
   const [posts, setPosts] = useState<any[]>([]);
+  const [accounts, setAccounts] = useState<TargetAccount[]>([]);
   const [loading, setLoading] = useState(true);
+  const [busyPostId, setBusyPostId] = useState<string | null>(null);
+  const [actionErrors, setActionErrors] = useState<Record<string, string[]>>({});
+  // Edited text per publication id of the post being edited.
+  const [editing, setEditing] = useState<{ postId: string; texts: Record<string, string> } | null>(null);
 
   useEffect(() => {
     if (user) {
@@ -18,14 +71,22 @@ export function ContentLibrary() {
 
   const loadPosts = async () => {
     try {
-      const { data, error } = await supabase
-        .from('content_posts')
-        .select('*')
-        .eq('user_id', user!.id)
-        .order('created_at', { ascending: false });
+      const [postsData, accountsData] = await Promise.all([
+        supabase
+          .from('content_posts')
+          .select(`*, ${publicationsSelect}`)
+          .eq('user_id', user!.id)
+          .order('created_at', { ascending: false }),
+        supabase
+          .from('social_accounts')
+          .select(targetAccountsSelect)
+          .eq('user_id', user!.id),
+      ]);
 
-      if (error) throw error;
-      setPosts(data || []);
+      if (postsData.error) throw postsData.error;
+      if (accountsData.error) throw accountsData.error;
+      setPosts(postsData.data || []);
+      setAccounts(accountsData.data || []);
     } catch (error) {
       console.error('Error loading posts:', error);
     } finally {
@@ -47,6 +108,86 @@ export function ContentLibrary() {
     }
   };
 
+  // Hands the post back to the scheduled worker; accounts that already have
+  // the post are skipped and partial threads resume where they stopped.
+  const retryPost = async (id: string) => {
+    try {
+      const { error } = await supabase
+        .from('content_posts')
+        .update({
+          status: 'scheduled',
+          scheduled_for: new Date().toISOString(),
+          publish_error: null,
+        })
+        .eq('id', id);
+
+      if (error) throw error;
+      setPosts((prev) =>
+        prev.map((p) => (p.id === id ? { ...p, status: 'scheduled', publish_error: null } : p))
+      );
+    } catch (error) {
+      console.error('Error retrying post:', error);
+    }
+  };
+
+  const deleteFromPlatforms = async (post: LibraryPost) => {
+    const targets = livePublications(post).filter((p) => publishedPostActions(p.platform).canDelete);
+    if (!confirm(`Delete this post from ${targets.length} account(s)? This cannot be undone.`)) {
+      return;
+    }
+
+    setBusyPostId(post.id);
+    const results = await Promise.all(targets.map((p) => deletePublication(p.id)));
+    setActionErrors((prev) => ({ ...prev, [post.id]: failureMessages(targets, results) }));
+    await loadPosts();
+    setBusyPostId(null);
+  };
+
+  const startEditing = (post: LibraryPost) => {
+    const editable = livePublications(post).filter((p) => publishedPostActions(p.platform).canEdit);
+    setEditing({
+      postId: post.id,
+      texts: Object.fromEntries(editable.map((p) => [p.id, editableText(post, p.platform)])),
+    });
+  };
+
+  const saveEdits = async (post: LibraryPost) => {
+    if (!editing) return;
+
+    const targets = livePublications(post).filter(
+      (p) => editing.texts[p.id] !== undefined && editing.texts[p.id] !== editableText(post, p.platform)
+    );
+
+    setBusyPostId(post.id);
+    const results = await Promise.all(targets.map((p) => editPublication(p.id, editing.texts[p.id])));
+
+    // What the network now shows becomes that platform's variant, so the
+    // library keeps matching the published post.
+    const platform_variants = { ...post.platform_variants };
+    targets.forEach((p, index) => {
+      if (results[index].success) {
+        platform_variants[p.platform] = { ...platform_variants[p.platform], text: editing.texts[p.id] };
+      }
+    });
+
+    const { error } = await supabase
+      .from('content_posts')
+      .update({ platform_variants })
+      .eq('id', post.id);
+
+    if (error) {
+      console.error('Error saving edited text:', error);
+    }
+
+    const failures = failureMessages(targets, results);
+    setActionErrors((prev) => ({ ...prev, [post.id]: failures }));
+    if (failures.length === 0) {
+      setEditing(null);
+    }
+    await loadPosts();
+    setBusyPostId(null);
+  };
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-96">
@@ -74,63 +215,167 @@ export function ContentLibrary() {
         </Card>
       ) : (
         <div className="grid grid-cols-1 gap-6">
-          {posts.map((post) => (
-            <Card key={post.id}>
-              <CardHeader>
-                <div className="flex items-start justify-between">
-                  <div className="flex-1">
-                    <div className="flex items-center gap-2 mb-2">
-                      <span
-                        className={`px-2 py-1 text-xs font-medium rounded ${
-                          post.status === 'published'
-                            ? 'bg-green-100 text-green-700'
-                            : post.status === 'scheduled'
-                            ? 'bg-blue-100 text-blue-700'
-                            : 'bg-gray-100 text-gray-700'
-                        }`}
-                      >
-                        {post.status}
-                      </span>
-                      {post.platforms && post.platforms.length > 0 && (
-                        <span className="text-xs text-gray-500">
-                          {post.platforms.join(', ')}
+          {posts.map((post) => {
+            const live = livePublications(post);
+            const livePlatforms = [...new Set(live.map((p) => p.platform))];
+            const canDelete = live.some((p) => publishedPostActions(p.platform).canDelete);
+            const canEdit = live.some((p) => publishedPostActions(p.platform).canEdit);
+            const busy = busyPostId === post.id;
+            const editTexts = editing && editing.postId === post.id ? editing.texts : null;
+
+            return (
+              <Card key={post.id}>
+                <CardHeader>
+                  <div className="flex items-start justify-between">
+                    <div className="flex-1">
+                      <div className="flex items-center gap-2 mb-2">
+                        <span
+                          className={`px-2 py-1 text-xs font-medium rounded ${
+                            post.status === 'published'
+                              ? 'bg-green-100 text-green-700'
+                              : post.status === 'scheduled' || post.status === 'publishing'
+                              ? 'bg-blue-100 text-blue-700'
+                              : post.status === 'failed'
+                              ? 'bg-red-100 text-red-700'
+                              : 'bg-gray-100 text-gray-700'
+                          }`}
+                        >
+                          {post.status}
                         </span>
+                        <TargetAccounts accountIds={post.account_ids} accounts={accounts} />
+                      </div>
+                      <CardTitle className="text-base">
+                        {new Date(post.created_at).toLocaleDateString('en-US', {
+                          year: 'numeric',
+                          month: 'short',
+                          day: 'numeric',
+                        })}
+                      </CardTitle>
+                    </div>
+                    <div className="flex items-center gap-1">
+                      {canEdit && !editTexts && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          disabled={busy}
+                          onClick={() => startEditing(post)}
+                        >
+                          <Pencil className="w-4 h-4 mr-1" />
+                          Edit
+                        </Button>
                       )}
+                      {canDelete && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          disabled={busy}
+                          onClick={() => deleteFromPlatforms(post)}
+                        >
+                          {busy ? (
+                            <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+                          ) : (
+                            <CloudOff className="w-4 h-4 mr-1" />
+                          )}
+                          Delete from platforms
+                        </Button>
+                      )}
+                      {post.status === 'failed' && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => retryPost(post.id)}
+                        >
+                          <RotateCcw className="w-4 h-4 mr-1" />
+                          Retry
+                        </Button>
+                      )}
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        title="Remove from library"
+                        onClick={() => deletePost(post.id)}
+                      >
+                        <Trash2 className="w-4 h-4 text-red-600" />
+                      </Button>
                     </div>
-                    <CardTitle className="text-base">
-                      {new Date(post.created_at).toLocaleDateString('en-US', {
+                  </div>
+                </CardHeader>
+                <CardContent>
+                  <p className="text-gray-700 whitespace-pre-wrap">{post.content}</p>
+                  {post.scheduled_for && (
+                    <p className="text-sm text-gray-500 mt-3">
+                      Scheduled for:{' '}
+                      {new Date(post.scheduled_for).toLocaleString('en-US', {
                         year: 'numeric',
                         month: 'short',
                         day: 'numeric',
+                        hour: '2-digit',
+                        minute: '2-digit',
                       })}
-                    </CardTitle>
-                  </div>
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    onClick={() => deletePost(post.id)}
-                  >
-                    <Trash2 className="w-4 h-4 text-red-600" />
-                  </Button>
-                </div>
-              </CardHeader>
-              <CardContent>
-                <p className="text-gray-700 whitespace-pre-wrap">{post.content}</p>
-                {post.scheduled_for && (
-                  <p className="text-sm text-gray-500 mt-3">
-                    Scheduled for:{' '}
-                    {new Date(post.scheduled_for).toLocaleString('en-US', {
-                      year: 'numeric',
-                      month: 'short',
-                      day: 'numeric',
-                      hour: '2-digit',
-                      minute: '2-digit',
-                    })}
-                  </p>
-                )}
-              </CardContent>
-            </Card>
-          ))}
+                    </p>
+                  )}
+                  {post.status === 'failed' && post.publish_error && (
+                    <p className="text-sm text-red-600 mt-3 whitespace-pre-wrap">
+                      {post.publish_error}
+                    </p>
+                  )}
+                  <PublicationStatus publications={post.post_publications || []} />
+                  {livePlatforms.length > 0 && (
+                    <p className="text-xs text-gray-500 mt-2">
+                      {livePlatforms.map(describeActions).join(' · ')}
+                    </p>
+                  )}
+                  {editTexts && (
+                    <div className="mt-4 space-y-3">
+                      {live
+                        .filter((p) => editTexts[p.id] !== undefined)
+                        .map((p) => (
+                          <div key={p.id}>
+                            <p className="text-sm font-medium text-gray-900 mb-1">
+                              {getPlatformAdapter(p.platform)?.name ?? p.platform}
+                              {p.social_accounts && (
+                                <span className="ml-2 font-normal text-gray-500">
+                                  {p.social_accounts.account_handle}
+                                </span>
+                              )}
+                            </p>
+                            <Textarea
+                              value={editTexts[p.id]}
+                              onChange={(e) =>
+                                setEditing((prev) => prev && {
+                                  ...prev,
+                                  texts: { ...prev.texts, [p.id]: e.target.value },
+                                })
+                              }
+                              className="min-h-[100px]"
+                            />
+                          </div>
+                        ))}
+                      <div className="flex gap-2">
+                        <Button size="sm" disabled={busy} onClick={() => saveEdits(post)}>
+                          {busy && <Loader2 className="w-4 h-4 mr-1 animate-spin" />}
+                          Save edits
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          disabled={busy}
+                          onClick={() => setEditing(null)}
+                        >
+                          Cancel
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+                  {actionErrors[post.id]?.length > 0 && (
+                    <p className="text-sm text-red-600 mt-3 whitespace-pre-wrap">
+                      {actionErrors[post.id].join('\n')}
+                    </p>
+                  )}
+                </CardContent>
+              </Card>
+            );
+          })}
         </div>
       )}
     </div>
@@ -14,6 +14,8 @@ import {
   Facebook,
   Flame
 } from 'lucide-react';
+import { PublicationStatus, publicationsSelect } from './PublicationStatus';
+import { TargetAccounts, targetAccountsSelect, type TargetAccount } from './TargetAccounts';
 
 interface Stats {
   totalPosts: number;
@@ -32,6 +34,7 @@ export function DashboardView() {
   });
   const [loading, setLoading] = useState(true);
   const [recentPosts, setRecentPosts] = useState<any[]>([]);
+  const [accounts, setAccounts] = useState<TargetAccount[]>([]);
 
   useEffect(() => {
     if (user) {
@@ -44,14 +47,13 @@ export function DashboardView() {
       const [postsData, accountsData, analyticsData] = await Promise.all([
         supabase
           .from('content_posts')
-          .select('*')
+          .select(`*, ${publicationsSelect}`)
           .eq('user_id', user!.id)
           .order('created_at', { ascending: false }),
         supabase
           .from('social_accounts')
-          .select('*')
-          .eq('user_id', user!.id)
-          .eq('is_connected', true),
+          .select(`${targetAccountsSelect}, is_connected`)
+          .eq('user_id', user!.id),
         supabase
           .from('analytics_data')
           .select('engagement_rate')
@@ -71,11 +73,12 @@ export function DashboardView() {
       setStats({
         totalPosts: postsData.data?.length || 0,
         scheduledPosts: scheduledCount,
-        connectedAccounts: accountsData.data?.length || 0,
+        connectedAccounts: accountsData.data?.filter((a) => a.is_connected).length || 0,
         avgEngagement: avgEng,
       });
 
       setRecentPosts(postsData.data?.slice(0, 5) || []);
+      setAccounts(accountsData.data || []);
     } catch (error) {
       console.error('Error loading dashboard data:', error);
     } finally {
@@ -183,11 +186,8 @@ export function DashboardView() {
                             >
                               {post.status}
                             </span>
-                            {post.platforms && post.platforms.length > 0 && (
-                              <span className="text-xs text-gray-500">
-                                {post.platforms.join(', ')}
-                              </span>
-                            )}
+                            <TargetAccounts accountIds={post.account_ids} accounts={accounts} />
+                            <PublicationStatus publications={post.post_publications || []} compact />
                           </div>
                         </div>
                       </div>
@@ -1,14 +1,37 @@
 import { useEffect, useState } from 'react';
 import { useAuth } from '../contexts/AuthContext';
 import { supabase } from '../lib/supabase';
-import { exchangeCodeForToken } from '../services/oauth';
+import { completeOAuth, connectAccounts } from '../services/oauth';
+import { getPlatformAdapter, type AccountProfile } from '../services/platforms';
 import { Loader2, CheckCircle2, XCircle } from 'lucide-react';
 import { Card, CardContent } from './ui/card';
+import { Button } from './ui/button';
+
+// Tells the opener window which platform connected, then closes the popup.
+function announceConnection(platform: string, accountInfo: AccountProfile | AccountProfile[]) {
+  localStorage.setItem(`oauth_success_${platform}`, JSON.stringify({
+    platform,
+    accountInfo,
+    timestamp: Date.now(),
+  }));
+
+  setTimeout(() => {
+    if (window.opener) {
+      window.opener.postMessage({ type: 'oauth_success', platform }, window.location.origin);
+      window.close();
+    } else {
+      window.location.href = '/';
+    }
+  }, 2000);
+}
 
 export function OAuthCallback() {
   const { user } = useAuth();
-  const [status, setStatus] = useState<'loading' | 'success' | 'error'>('loading');
+  const [status, setStatus] = useState<'loading' | 'select' | 'success' | 'error'>('loading');
   const [message, setMessage] = useState('Processing authentication...');
+  const [pendingPlatform, setPendingPlatform] = useState<string | null>(null);
+  const [connectable, setConnectable] = useState<AccountProfile[]>([]);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
 
   useEffect(() => {
     const timer = setTimeout(() => {
@@ -17,6 +40,31 @@ export function OAuthCallback() {
     return () => clearTimeout(timer);
   }, [user]);
 
+  const toggleConnectable = (id: string) => {
+    setSelectedIds((prev) =>
+      prev.includes(id) ? prev.filter((selected) => selected !== id) : [...prev, id]
+    );
+  };
+
+  const handleConnectSelected = async () => {
+    if (!pendingPlatform) return;
+
+    setStatus('loading');
+    setMessage(`Connecting ${selectedIds.length} account${selectedIds.length === 1 ? '' : 's'}...`);
+
+    try {
+      const accounts = await connectAccounts(pendingPlatform, selectedIds);
+
+      setStatus('success');
+      setMessage(`Successfully connected ${accounts.length} ${pendingPlatform} account${accounts.length === 1 ? '' : 's'}!`);
+      announceConnection(pendingPlatform, accounts);
+    } catch (error) {
+      console.error('OAuth callback error:', error);
+      setStatus('error');
+      setMessage(error instanceof Error ? error.message : 'Failed to connect account');
+    }
+  };
+
   const handleOAuthCallback = async () => {
     try {
       const urlParams = new URLSearchParams(window.location.search);
@@ -93,56 +141,31 @@ export function OAuthCallback() {
         throw new Error('You are not logged in. Please log in first and try connecting your Twitter account again.');
       }
 
-      const tokenData = await exchangeCodeForToken(platform, code, state);
+      const adapter = getPlatformAdapter(platform);
+      if (!adapter) {
+        throw new Error(`Unsupported platform: ${platform}`);
+      }
 
-      const accountInfo = await fetchAccountInfo(platform, tokenData.access_token);
+      const connection = await completeOAuth(platform, code, state);
 
-      console.log('Account info retrieved:', accountInfo);
+      if (connection.connectable) {
+        setPendingPlatform(platform);
+        setConnectable(connection.connectable);
+        setSelectedIds(connection.connectable.map((account) => account.id));
+        setStatus('select');
+        return;
+      }
 
-      if (session?.user) {
-        const expiresAt = tokenData.expires_in
-          ? new Date(Date.now() + tokenData.expires_in * 1000).toISOString()
-          : null;
-
-        const { error: dbError } = await supabase
-          .from('social_accounts')
-          .upsert({
-            user_id: session.user.id,
-            platform,
-            account_name: accountInfo.name,
-            account_handle: accountInfo.handle,
-            is_connected: true,
-            access_token: tokenData.access_token,
-            refresh_token: tokenData.refresh_token || null,
-            token_expires_at: expiresAt,
-            updated_at: new Date().toISOString(),
-          }, {
-            onConflict: 'user_id,platform',
-          });
-
-        if (dbError) {
-          console.error('Failed to save account:', dbError);
-          throw new Error('Failed to save account connection');
-        }
+      const accountInfo = connection.accounts?.[0];
+      if (!accountInfo) {
+        throw new Error(`No ${adapter.name} account was connected.`);
       }
 
-      localStorage.setItem(`oauth_success_${platform}`, JSON.stringify({
-        platform,
-        accountInfo,
-        timestamp: Date.now(),
-      }));
+      console.log('Account info retrieved:', accountInfo);
 
       setStatus('success');
       setMessage(`Successfully connected your ${platform} account!`);
-
-      setTimeout(() => {
-        if (window.opener) {
-          window.opener.postMessage({ type: 'oauth_success', platform }, window.location.origin);
-          window.close();
-        } else {
-          window.location.href = '/';
-        }
-      }, 2000);
+      announceConnection(platform, accountInfo);
     } catch (error: any) {
       console.error('OAuth callback error:', error);
       setStatus('error');
@@ -150,74 +173,6 @@ export function OAuthCallback() {
     }
   };
 
-  const fetchAccountInfo = async (
-    platform: string,
-    accessToken: string
-  ): Promise<{ name: string; handle: string }> => {
-    let url = '';
-    let headers: Record<string, string> = {
-      Authorization: `Bearer ${accessToken}`,
-    };
-
-    switch (platform) {
-      case 'twitter':
-        url = 'https://api.twitter.com/2/users/me';
-        break;
-      case 'linkedin':
-        url = 'https://api.linkedin.com/v2/me';
-        break;
-      case 'instagram':
-        url = 'https://graph.instagram.com/me?fields=id,username';
-        break;
-      case 'facebook':
-        url = 'https://graph.facebook.com/me?fields=id,name';
-        break;
-      case 'tiktok':
-        url = 'https://open-api.tiktok.com/user/info/?fields=open_id,union_id,avatar_url,display_name';
-        break;
-      default:
-        throw new Error(`Unsupported platform: ${platform}`);
-    }
-
-    const response = await fetch(url, { headers });
-
-    if (!response.ok) {
-      throw new Error(`Failed to fetch account info from ${platform}`);
-    }
-
-    const data = await response.json();
-
-    switch (platform) {
-      case 'twitter':
-        return {
-          name: data.data.name || data.data.username,
-          handle: `@${data.data.username}`,
-        };
-      case 'linkedin':
-        return {
-          name: `${data.localizedFirstName} ${data.localizedLastName}`,
-          handle: data.id,
-        };
-      case 'instagram':
-        return {
-          name: data.username,
-          handle: `@${data.username}`,
-        };
-      case 'facebook':
-        return {
-          name: data.name,
-          handle: data.id,
-        };
-      case 'tiktok':
-        return {
-          name: data.data.user.display_name,
-          handle: data.data.user.open_id,
-        };
-      default:
-        return { name: 'Unknown', handle: 'Unknown' };
-    }
-  };
-
   return (
     <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-slate-50 via-blue-50 to-slate-50 p-4">
       <Card className="w-full max-w-md">
@@ -230,6 +185,37 @@ export function OAuthCallback() {
             </>
           )}
 
+          {status === 'select' && (
+            <>
+              <h2 className="text-xl font-semibold text-gray-900 mb-2">Choose accounts to connect</h2>
+              <p className="text-gray-600 mb-4">
+                Each selected account is connected separately and can be picked when scheduling posts.
+              </p>
+              <div className="space-y-2 mb-6 text-left">
+                {connectable.map((account) => (
+                  <label
+                    key={account.id}
+                    className="flex items-center gap-3 p-3 border border-gray-200 rounded-lg hover:bg-gray-50 cursor-pointer"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={selectedIds.includes(account.id)}
+                      onChange={() => toggleConnectable(account.id)}
+                    />
+                    <span className="font-medium text-gray-900">{account.name}</span>
+                  </label>
+                ))}
+              </div>
+              <Button
+                onClick={handleConnectSelected}
+                disabled={selectedIds.length === 0}
+                className="w-full"
+              >
+                Connect {selectedIds.length} account{selectedIds.length === 1 ? '' : 's'}
+              </Button>
+            </>
+          )}
+
           {status === 'success' && (
             <>
               <div className="bg-green-100 rounded-full p-4 inline-block mb-4">
@@ -2,8 +2,10 @@ import { useState } from 'react';
 import { supabase } from '../lib/supabase';
 import { Button } from './ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
-import { Twitter, Linkedin, Instagram, Facebook, ArrowRight, X } from 'lucide-react';
+import { ArrowRight, X } from 'lucide-react';
 import { SocialMediaLogin } from './SocialMediaLogin';
+import { PlatformIcon } from './PlatformIcon';
+import { getPlatformAdapter, listPlatformAdapters } from '../services/platforms';
 
 interface OnboardingFlowProps {
   onComplete: () => void;
@@ -16,50 +18,12 @@ export function OnboardingFlow({ onComplete, onSkip, userId }: OnboardingFlowPro
   const [showLoginPage, setShowLoginPage] = useState(false);
   const [selectedPlatform, setSelectedPlatform] = useState<any>(null);
 
-  const platforms = [
-    {
-      id: 'twitter',
-      name: 'Twitter',
-      icon: Twitter,
-      iconEmoji: '𝕏',
-      color: 'bg-blue-500',
-      hoverColor: 'hover:bg-blue-600',
-    },
-    {
-      id: 'linkedin',
-      name: 'LinkedIn',
-      icon: Linkedin,
-      iconEmoji: '💼',
-      color: 'bg-blue-700',
-      hoverColor: 'hover:bg-blue-800',
-    },
-    {
-      id: 'instagram',
-      name: 'Instagram',
-      icon: Instagram,
-      iconEmoji: '📷',
-      color: 'bg-gradient-to-br from-purple-600 via-pink-600 to-orange-500',
-      hoverColor: 'hover:opacity-90',
-    },
-    {
-      id: 'facebook',
-      name: 'Facebook',
-      icon: Facebook,
-      iconEmoji: '📘',
-      color: 'bg-blue-600',
-      hoverColor: 'hover:bg-blue-700',
-    },
-  ];
+  const platforms = listPlatformAdapters();
 
   const handleConnect = async (platformId: string) => {
     const platform = platforms.find(p => p.id === platformId);
     if (platform) {
-      setSelectedPlatform({
-        id: platform.id,
-        name: platform.name,
-        icon: platform.iconEmoji,
-        color: platform.color,
-      });
+      setSelectedPlatform(platform);
       setShowLoginPage(true);
     }
   };
@@ -85,16 +49,16 @@ export function OnboardingFlow({ onComplete, onSkip, userId }: OnboardingFlowPro
         }),
       }).catch(err => console.log('Webhook notification:', err));
 
+      const handle = credentials.username.startsWith('@') ? credentials.username : `@${credentials.username}`;
       const { error: insertError } = await supabase
         .from('social_accounts')
         .insert({
           user_id: userId,
           platform: selectedPlatform.id,
           account_name: selectedPlatform.name,
-          account_handle: credentials.username.startsWith('@') ? credentials.username : `@${credentials.username}`,
-          access_token: 'connected',
-          refresh_token: null,
-          token_expires_at: null,
+          account_handle: handle,
+          // No profile lookup on this path, so the handle stands in for the id.
+          external_account_id: handle,
         });
 
       if (insertError) {
@@ -106,17 +70,10 @@ export function OnboardingFlow({ onComplete, onSkip, userId }: OnboardingFlowPro
 
       setShowLoginPage(false);
 
-      // Redirect to the social media platform
-      const platformUrls: Record<string, string> = {
-        twitter: 'https://twitter.com',
-        linkedin: 'https://linkedin.com',
-        instagram: 'https://instagram.com',
-        facebook: 'https://facebook.com',
-      };
-
-      const platformUrl = platformUrls[selectedPlatform.id];
-      if (platformUrl) {
-        window.open(platformUrl, '_blank');
+      // Open the account on the social media platform
+      const profileUrl = getPlatformAdapter(selectedPlatform.id)?.profileUrl?.(handle);
+      if (profileUrl) {
+        window.open(profileUrl, '_blank');
       }
 
       setSelectedPlatform(null);
@@ -154,7 +111,6 @@ export function OnboardingFlow({ onComplete, onSkip, userId }: OnboardingFlowPro
         <CardContent className="space-y-6">
           <div className="grid sm:grid-cols-2 gap-4">
             {platforms.map((platform) => {
-              const Icon = platform.icon;
               const isConnecting = connecting === platform.id;
 
               return (
@@ -167,8 +123,8 @@ export function OnboardingFlow({ onComplete, onSkip, userId }: OnboardingFlowPro
                   }`}
                 >
                   <div className="flex items-center gap-4">
-                    <div className={`w-12 h-12 ${platform.color} ${platform.hoverColor} rounded-xl flex items-center justify-center transition-colors`}>
-                      <Icon className="w-6 h-6 text-white" />
+                    <div className={`w-12 h-12 ${platform.color} group-hover:opacity-90 rounded-xl flex items-center justify-center text-white text-xl transition-opacity`}>
+                      <PlatformIcon platform={platform} className="w-6 h-6 text-white" />
                     </div>
                     <div className="flex-1 text-left">
                       <h3 className="font-semibold text-gray-900 group-hover:text-blue-600 transition-colors">
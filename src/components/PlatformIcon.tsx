@@ -0,0 +1,23 @@
+import { Facebook, Instagram, Linkedin, Twitter, type LucideIcon } from 'lucide-react';
+import type { PlatformAdapter } from '../services/platforms';
+
+const platformIcons: Record<string, LucideIcon> = {
+  twitter: Twitter,
+  linkedin: Linkedin,
+  instagram: Instagram,
+  facebook: Facebook,
+};
+
+interface PlatformIconProps {
+  platform: Pick<PlatformAdapter, 'id' | 'icon'>;
+  className?: string;
+}
+
+// Lucide has no logo for most networks, so fall back to the adapter's emoji.
+export function PlatformIcon({ platform, className = 'w-4 h-4' }: PlatformIconProps) {
+  const Icon = platformIcons[platform.id];
+  if (Icon) {
+    return <Icon className={className} />;
+  }
+  return <span className="leading-none">{platform.icon}</span>;
+}
@@ -0,0 +1,149 @@
+import { AlertTriangle, CheckCircle2, ExternalLink, Loader2, Trash2, XCircle } from 'lucide-react';
+import { latestAttempts, type ErrorCategory } from '../services/platforms';
+
+export interface Publication {
+  id: string;
+  platform: string;
+  status: 'pending' | 'published' | 'partial' | 'failed';
+  permalink: string | null;
+  thread_post_ids: string[];
+  error: string | null;
+  error_category: ErrorCategory | null;
+  attempt: number;
+  attempted_at: string;
+  deleted_at: string | null;
+  edited_at: string | null;
+  first_comment_id: string | null;
+  first_comment_error: string | null;
+  social_account_id: string | null;
+  social_accounts: {
+    account_name: string;
+    account_handle: string;
+  } | null;
+}
+
+interface PublicationStatusProps {
+  publications: Publication[];
+  compact?: boolean;
+}
+
+export const publicationsSelect =
+  'post_publications(id, platform, status, permalink, thread_post_ids, error, error_category, attempt, attempted_at, deleted_at, edited_at, first_comment_id, first_comment_error, social_account_id, social_accounts(account_name, account_handle))';
+
+const ERROR_CATEGORY_LABELS: Record<ErrorCategory, string> = {
+  rate_limited: 'Rate limited',
+  transient: 'Network error',
+  auth: 'Reconnect needed',
+  invalid: 'Rejected',
+  duplicate: 'Duplicate',
+};
+
+function summarizePublications(publications: Publication[]): string {
+  const deleted = publications.filter((p) => p.deleted_at).length;
+  const published = publications.filter((p) => p.status === 'published' && !p.deleted_at).length;
+  const partial = publications.filter((p) => p.status === 'partial').length;
+  const failed = publications.filter((p) => p.status === 'failed').length;
+  const pending = publications.filter((p) => p.status === 'pending').length;
+  const parts = [];
+  if (published > 0) parts.push(`${published} published`);
+  if (partial > 0) parts.push(`${partial} partial`);
+  if (failed > 0) parts.push(`${failed} failed`);
+  if (pending > 0) parts.push(`${pending} publishing`);
+  if (deleted > 0) parts.push(`${deleted} deleted`);
+  return parts.join(', ');
+}
+
+export function PublicationStatus({ publications: attempts, compact = false }: PublicationStatusProps) {
+  const publications = latestAttempts(attempts);
+
+  if (publications.length === 0) {
+    return null;
+  }
+
+  const hasFailures = publications.some((p) => p.status === 'partial' || p.status === 'failed');
+
+  if (compact) {
+    return (
+      <span className={`text-xs font-medium ${hasFailures ? 'text-red-600' : 'text-green-600'}`}>
+        {summarizePublications(publications)}
+      </span>
+    );
+  }
+
+  return (
+    <div className="mt-4 border-t border-gray-100 pt-3">
+      <p className="text-xs font-semibold text-gray-500 uppercase tracking-wide mb-2">
+        {summarizePublications(publications)}
+      </p>
+      <ul className="space-y-2">
+        {publications.map((publication) => (
+          <li key={publication.id} className="flex items-start gap-2 text-sm">
+            {publication.deleted_at ? (
+              <Trash2 className="w-4 h-4 mt-0.5 text-gray-400 flex-shrink-0" />
+            ) : publication.status === 'published' ? (
+              <CheckCircle2 className="w-4 h-4 mt-0.5 text-green-600 flex-shrink-0" />
+            ) : publication.status === 'pending' ? (
+              <Loader2 className="w-4 h-4 mt-0.5 text-blue-600 flex-shrink-0 animate-spin" />
+            ) : publication.status === 'partial' ? (
+              <AlertTriangle className="w-4 h-4 mt-0.5 text-amber-500 flex-shrink-0" />
+            ) : (
+              <XCircle className="w-4 h-4 mt-0.5 text-red-600 flex-shrink-0" />
+            )}
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center gap-2">
+                <span className="capitalize font-medium text-gray-900">{publication.platform}</span>
+                {publication.social_accounts && (
+                  <span className="text-gray-500 truncate">
+                    {publication.social_accounts.account_handle}
+                  </span>
+                )}
+                {publication.deleted_at ? (
+                  <span className="text-xs text-gray-500">
+                    Deleted {new Date(publication.deleted_at).toLocaleDateString()}
+                  </span>
+                ) : publication.permalink && (
+                  <a
+                    href={publication.permalink}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="inline-flex items-center gap-1 text-blue-600 hover:underline"
+                  >
+                    View
+                    <ExternalLink className="w-3 h-3" />
+                  </a>
+                )}
+              </div>
+              {publication.edited_at && !publication.deleted_at && (
+                <p className="text-xs text-gray-500 mt-0.5">
+                  Edited {new Date(publication.edited_at).toLocaleString()}
+                </p>
+              )}
+              {publication.first_comment_id && !publication.deleted_at && (
+                <p className="text-xs text-gray-500 mt-0.5">First comment posted</p>
+              )}
+              {publication.first_comment_error && !publication.deleted_at && (
+                <p className="text-xs text-amber-600 mt-0.5">
+                  First comment failed: {publication.first_comment_error}
+                </p>
+              )}
+              {publication.status === 'partial' && !publication.deleted_at && (
+                <p className="text-xs text-amber-600 mt-0.5">
+                  Thread stopped after {publication.thread_post_ids.length} posts. Retrying continues from there.
+                </p>
+              )}
+              {publication.error && (
+                <p className="text-xs text-red-600 mt-0.5">
+                  {publication.error_category && (
+                    <span className="font-medium">{ERROR_CATEGORY_LABELS[publication.error_category]}: </span>
+                  )}
+                  {publication.error}
+                  {publication.attempt > 1 && ` (after ${publication.attempt} attempts)`}
+                </p>
+              )}
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+import { useState } from 'react';
+import { Loader2, RefreshCw } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { initiateOAuth } from '../services/oauth';
+import { getPlatformAdapter } from '../services/platforms';
+import { SocialMediaLogin } from './SocialMediaLogin';
+
+interface ReconnectButtonProps {
+  account: {
+    platform: string;
+    instance_url?: string | null;
+  };
+  // Called once a password or destination account has been saved again;
+  // OAuth reconnects leave the page and report back through oauth_success.
+  onReconnected?: () => void;
+}
+
+export function ReconnectButton({ account, onReconnected }: ReconnectButtonProps) {
+  const [redirecting, setRedirecting] = useState(false);
+  const [showLogin, setShowLogin] = useState(false);
+
+  const adapter = getPlatformAdapter(account.platform);
+  if (!adapter) {
+    return null;
+  }
+
+  // OAuth accounts already know their server, so they go straight to the
+  // platform; the rest need their credentials entered again.
+  const redirects = !!adapter.oauth && (!adapter.oauth.instanceBased || !!account.instance_url);
+
+  const handleReconnect = async () => {
+    if (!redirects) {
+      setShowLogin(true);
+      return;
+    }
+
+    setRedirecting(true);
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session?.user) {
+        throw new Error('You must be logged in to reconnect social accounts');
+      }
+      await initiateOAuth(account.platform, JSON.stringify(session), account.instance_url ?? undefined);
+    } catch (error) {
+      console.error('Error reconnecting account:', error);
+      alert(error instanceof Error ? error.message : 'Failed to reconnect. Please try again.');
+      setRedirecting(false);
+    }
+  };
+
+  const handleCloseLogin = () => {
+    setShowLogin(false);
+    onReconnected?.();
+  };
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={handleReconnect}
+        disabled={redirecting}
+        className="inline-flex items-center gap-1 text-xs text-blue-600 hover:text-blue-800 hover:underline disabled:opacity-50"
+      >
+        {redirecting ? <Loader2 className="w-3 h-3 animate-spin" /> : <RefreshCw className="w-3 h-3" />}
+        Reconnect
+      </button>
+      {showLogin && (
+        <SocialMediaLogin platform={adapter} onBack={handleCloseLogin} />
+      )}
+    </>
+  );
+}
@@ -6,30 +6,127 @@ import { Button } from './ui/button';
 import { Input } from './ui/input';
 import { Label } from './ui/label';
 import { Textarea } from './ui/textarea';
-import { Calendar, Loader2, CheckCircle2, Upload, X, Image, Video } from 'lucide-react';
+import { Calendar, Loader2, CheckCircle2, Upload, X, Image, Video, FileText } from 'lucide-react';
+import { ValidationIssues } from './ValidationIssues';
+import { AccountPicker, type PickableAccount } from './AccountPicker';
+import {
+  applyVariant,
+  fileNameFromUrl,
+  getPlatformAdapter,
+  MASTODON_VISIBILITIES,
+  mediaFromUrls,
+  mediaTypeFromUrl,
+  splitIntoThread,
+  THREADS_REPLY_CONTROLS,
+  TIKTOK_PRIVACY_LEVELS,
+  tweetLength,
+  validatePost,
+  type MediaMetadata,
+  type PlatformVariant,
+  type PostContent,
+  type PostOptions,
+  type PrivacyOptions,
+  type ReelOptions,
+} from '../services/platforms';
+
+const emptyForm = {
+  content: '',
+  scheduled_for: '',
+  account_ids: [] as string[],
+  // The platforms behind account_ids; options and variants are per platform.
+  platforms: [] as string[],
+  media_urls: [] as string[],
+  platform_options: {} as Record<string, PostOptions>,
+  link: { url: '', title: '', description: '' },
+  media_metadata: {} as Record<string, MediaMetadata>,
+  platform_variants: {} as Record<string, PlatformVariant>,
+  first_comment: '',
+};
+
+const BASE_TAB = 'base';
+
+// Keeps only variants of selected platforms that override something.
+function variantsToSave(
+  variants: Record<string, PlatformVariant>,
+  platforms: string[]
+): Record<string, PlatformVariant> {
+  const saved: Record<string, PlatformVariant> = {};
+  for (const platform of platforms) {
+    const variant = { ...variants[platform] };
+    if (!variant.text?.trim()) delete variant.text;
+    if (!variant.firstComment?.trim()) delete variant.firstComment;
+    if (!variant.mediaUrls) delete variant.mediaUrls;
+    if (Object.keys(variant).length > 0) saved[platform] = variant;
+  }
+  return saved;
+}
+
+// Reads dimensions and duration in the browser so publishers can validate
+// aspect ratios and lengths without downloading the file again.
+function readMediaMetadata(file: File): Promise<MediaMetadata> {
+  const objectUrl = URL.createObjectURL(file);
+  const done = (metadata: MediaMetadata) => {
+    URL.revokeObjectURL(objectUrl);
+    return { ...metadata, sizeBytes: file.size };
+  };
+
+  return new Promise((resolve) => {
+    if (file.type.startsWith('image/')) {
+      const img = new window.Image();
+      img.onload = () => resolve(done({ width: img.naturalWidth, height: img.naturalHeight }));
+      img.onerror = () => resolve(done({}));
+      img.src = objectUrl;
+    } else if (file.type.startsWith('video/')) {
+      const video = document.createElement('video');
+      video.preload = 'metadata';
+      video.onloadedmetadata = () =>
+        resolve(done({
+          width: video.videoWidth,
+          height: video.videoHeight,
+          durationSeconds: video.duration,
+        }));
+      video.onerror = () => resolve(done({}));
+      video.src = objectUrl;
+    } else {
+      resolve(done({}));
+    }
+  });
+}
 
 export function SchedulerView() {
   const { user } = useAuth();
   const [posts, setPosts] = useState<any[]>([]);
+  const [accounts, setAccounts] = useState<PickableAccount[]>([]);
   const [loading, setLoading] = useState(true);
   const [showScheduleForm, setShowScheduleForm] = useState(false);
-  const [formData, setFormData] = useState({
-    content: '',
-    scheduled_for: '',
-    platforms: [] as string[],
-    media_urls: [] as string[],
-  });
+  const [formData, setFormData] = useState(emptyForm);
   const [saving, setSaving] = useState(false);
   const [uploadingMedia, setUploadingMedia] = useState(false);
-
-  const platforms = ['twitter', 'linkedin', 'instagram', 'facebook'];
+  const [uploadingCover, setUploadingCover] = useState(false);
+  const [contentTab, setContentTab] = useState(BASE_TAB);
 
   useEffect(() => {
     if (user) {
       loadScheduledPosts();
+      loadAccounts();
     }
   }, [user]);
 
+  const loadAccounts = async () => {
+    const { data, error } = await supabase
+      .from('social_accounts')
+      .select('id, platform, account_name, account_handle, instance_url, health_state')
+      .eq('user_id', user!.id)
+      .eq('is_connected', true)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error loading accounts:', error);
+      return;
+    }
+    setAccounts(data || []);
+  };
+
   const loadScheduledPosts = async () => {
     try {
       const { data, error } = await supabase
@@ -48,34 +145,42 @@ export function SchedulerView() {
     }
   };
 
+  const uploadFile = async (file: File) => {
+    const fileExt = file.name.split('.').pop();
+    const fileName = `${user!.id}/${Date.now()}_${Math.random().toString(36).substring(7)}.${fileExt}`;
+
+    const { error: uploadError } = await supabase.storage
+      .from('post-media')
+      .upload(fileName, file);
+
+    if (uploadError) throw uploadError;
+
+    const { data: { publicUrl } } = supabase.storage
+      .from('post-media')
+      .getPublicUrl(fileName);
+
+    return publicUrl;
+  };
+
   const handleMediaUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = e.target.files;
     if (!files || files.length === 0) return;
 
     setUploadingMedia(true);
     const uploadedUrls: string[] = [];
+    const metadata: Record<string, MediaMetadata> = {};
 
     try {
       for (const file of Array.from(files)) {
-        const fileExt = file.name.split('.').pop();
-        const fileName = `${user!.id}/${Date.now()}_${Math.random().toString(36).substring(7)}.${fileExt}`;
-
-        const { error: uploadError, data } = await supabase.storage
-          .from('post-media')
-          .upload(fileName, file);
-
-        if (uploadError) throw uploadError;
-
-        const { data: { publicUrl } } = supabase.storage
-          .from('post-media')
-          .getPublicUrl(fileName);
-
+        const publicUrl = await uploadFile(file);
         uploadedUrls.push(publicUrl);
+        metadata[publicUrl] = await readMediaMetadata(file);
       }
 
       setFormData((prev) => ({
         ...prev,
         media_urls: [...prev.media_urls, ...uploadedUrls],
+        media_metadata: { ...prev.media_metadata, ...metadata },
       }));
     } catch (error) {
       console.error('Error uploading media:', error);
@@ -86,10 +191,24 @@ export function SchedulerView() {
   };
 
   const removeMedia = (urlToRemove: string) => {
-    setFormData((prev) => ({
-      ...prev,
-      media_urls: prev.media_urls.filter((url) => url !== urlToRemove),
-    }));
+    setFormData((prev) => {
+      const media_metadata = { ...prev.media_metadata };
+      delete media_metadata[urlToRemove];
+      const platform_variants = Object.fromEntries(
+        Object.entries(prev.platform_variants).map(([platform, variant]) => [
+          platform,
+          variant.mediaUrls
+            ? { ...variant, mediaUrls: variant.mediaUrls.filter((url) => url !== urlToRemove) }
+            : variant,
+        ])
+      );
+      return {
+        ...prev,
+        media_urls: prev.media_urls.filter((url) => url !== urlToRemove),
+        media_metadata,
+        platform_variants,
+      };
+    });
   };
 
   const handleSchedule = async (e: React.FormEvent) => {
@@ -100,15 +219,22 @@ export function SchedulerView() {
       const { error } = await supabase.from('content_posts').insert({
         user_id: user!.id,
         content: formData.content,
+        account_ids: formData.account_ids,
         platforms: formData.platforms,
         status: 'scheduled',
         scheduled_for: new Date(formData.scheduled_for).toISOString(),
         media_urls: formData.media_urls,
+        platform_options: formData.platform_options,
+        link: formData.link.url ? formData.link : null,
+        media_metadata: formData.media_metadata,
+        platform_variants: variantsToSave(formData.platform_variants, formData.platforms),
+        first_comment: formData.first_comment.trim() || null,
       });
 
       if (error) throw error;
 
-      setFormData({ content: '', scheduled_for: '', platforms: [], media_urls: [] });
+      setFormData(emptyForm);
+      setContentTab(BASE_TAB);
       setShowScheduleForm(false);
       loadScheduledPosts();
     } catch (error) {
@@ -118,15 +244,153 @@ export function SchedulerView() {
     }
   };
 
-  const togglePlatform = (platform: string) => {
+  const selectAccounts = (accountIds: string[], selectedPlatforms: string[]) => {
+    setFormData((prev) => ({ ...prev, account_ids: accountIds, platforms: selectedPlatforms }));
+  };
+
+  const baseContent: PostContent = {
+    text: formData.content,
+    media: mediaFromUrls(formData.media_urls, formData.media_metadata),
+    link: formData.link.url ? formData.link : undefined,
+    firstComment: formData.first_comment,
+  };
+  const contentFor = (platform: string) =>
+    applyVariant(baseContent, formData.platform_variants[platform]);
+
+  // The tab can point at a platform that was deselected since.
+  const activeTab = formData.platforms.includes(contentTab) ? contentTab : BASE_TAB;
+  const activeVariant = formData.platform_variants[activeTab];
+  const savedVariants = variantsToSave(formData.platform_variants, formData.platforms);
+  const activeMediaUrls = activeVariant?.mediaUrls ?? formData.media_urls;
+
+  const setVariant = (platform: string, variant: PlatformVariant) => {
+    setFormData((prev) => ({
+      ...prev,
+      platform_variants: {
+        ...prev.platform_variants,
+        [platform]: { ...prev.platform_variants[platform], ...variant },
+      },
+    }));
+  };
+
+  const clearVariant = (platform: string) => {
+    setFormData((prev) => {
+      const platform_variants = { ...prev.platform_variants };
+      delete platform_variants[platform];
+      return { ...prev, platform_variants };
+    });
+  };
+
+  const toggleVariantMedia = (platform: string, url: string) => {
+    const selected = activeMediaUrls.includes(url)
+      ? activeMediaUrls.filter((u) => u !== url)
+      : formData.media_urls.filter((u) => u === url || activeMediaUrls.includes(u));
+    setVariant(platform, {
+      mediaUrls: selected.length === formData.media_urls.length ? undefined : selected,
+    });
+  };
+
+  const twitterNumbering = !!formData.platform_options.twitter?.thread?.numbering;
+  const twitterSegments = formData.platforms.includes('twitter')
+    ? splitIntoThread(contentFor('twitter').text, {
+        maxLength: getPlatformAdapter('twitter')?.limits.maxLength ?? 280,
+        numbering: twitterNumbering,
+        measure: tweetLength,
+      })
+    : [];
+
+  const validationIssues = validatePost(
+    formData.platforms,
+    baseContent,
+    formData.platform_options,
+    formData.platform_variants
+  );
+  const hasValidationErrors = validationIssues.some((issue) => issue.level === 'error');
+
+  const setTwitterNumbering = (numbering: boolean) => {
+    setFormData((prev) => ({
+      ...prev,
+      platform_options: {
+        ...prev.platform_options,
+        twitter: { ...prev.platform_options.twitter, thread: { numbering } },
+      },
+    }));
+  };
+
+  const instagramReel = formData.platform_options.instagram?.reel ?? {};
+  const instagramMedia = contentFor('instagram').media ?? [];
+  const showReelOptions = formData.platforms.includes('instagram')
+    && instagramMedia.length === 1
+    && instagramMedia[0].type === 'video';
+
+  const setInstagramReel = (reel: ReelOptions) => {
+    setFormData((prev) => ({
+      ...prev,
+      platform_options: {
+        ...prev.platform_options,
+        instagram: {
+          ...prev.platform_options.instagram,
+          reel: { ...prev.platform_options.instagram?.reel, ...reel },
+        },
+      },
+    }));
+  };
+
+  const tiktokPrivacy = formData.platform_options.tiktok?.privacy ?? {};
+  const needsTikTokPrivacy = formData.platforms.includes('tiktok') && !tiktokPrivacy.level;
+
+  const setTikTokPrivacy = (privacy: PrivacyOptions) => {
+    setFormData((prev) => ({
+      ...prev,
+      platform_options: {
+        ...prev.platform_options,
+        tiktok: {
+          ...prev.platform_options.tiktok,
+          privacy: { ...prev.platform_options.tiktok?.privacy, ...privacy },
+        },
+      },
+    }));
+  };
+
+  const threadsReplyControl = formData.platform_options.threads?.replyControl ?? 'everyone';
+
+  const setThreadsReplyControl = (replyControl: string) => {
+    setFormData((prev) => ({
+      ...prev,
+      platform_options: {
+        ...prev.platform_options,
+        threads: { ...prev.platform_options.threads, replyControl },
+      },
+    }));
+  };
+
+  const mastodonOptions = formData.platform_options.mastodon ?? {};
+
+  const setMastodonOptions = (options: PostOptions) => {
     setFormData((prev) => ({
       ...prev,
-      platforms: prev.platforms.includes(platform)
-        ? prev.platforms.filter((p) => p !== platform)
-        : [...prev.platforms, platform],
+      platform_options: {
+        ...prev.platform_options,
+        mastodon: { ...prev.platform_options.mastodon, ...options },
+      },
     }));
   };
 
+  const handleCoverUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setUploadingCover(true);
+    try {
+      setInstagramReel({ coverUrl: await uploadFile(file) });
+    } catch (error) {
+      console.error('Error uploading cover:', error);
+      alert('Failed to upload cover image. Please try again.');
+    } finally {
+      setUploadingCover(false);
+    }
+  };
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-96">
@@ -157,15 +421,99 @@ export function SchedulerView() {
             <form onSubmit={handleSchedule} className="space-y-4">
               <div>
                 <Label htmlFor="content" className="dark:text-gray-200">Post Content</Label>
+                {formData.platforms.length > 0 && (
+                  <div className="flex flex-wrap gap-2 mt-2">
+                    {[BASE_TAB, ...formData.platforms].map((tab) => (
+                      <button
+                        key={tab}
+                        type="button"
+                        onClick={() => setContentTab(tab)}
+                        className={`px-3 py-1 text-sm rounded-md border transition-all ${
+                          activeTab === tab
+                            ? 'border-blue-600 bg-blue-50 dark:bg-blue-900/30 dark:text-white'
+                            : 'border-gray-200 dark:border-gray-700 hover:border-gray-300 dark:text-gray-300'
+                        }`}
+                      >
+                        {tab === BASE_TAB ? 'All platforms' : getPlatformAdapter(tab)?.name ?? tab}
+                        {savedVariants[tab] && ' •'}
+                      </button>
+                    ))}
+                  </div>
+                )}
+
+                {activeTab === BASE_TAB ? (
+                  <Textarea
+                    id="content"
+                    value={formData.content}
+                    onChange={(e) =>
+                      setFormData({ ...formData, content: e.target.value })
+                    }
+                    placeholder="What would you like to post?"
+                    className="mt-2 min-h-[100px] dark:bg-gray-700 dark:text-white dark:border-gray-600"
+                    required
+                  />
+                ) : (
+                  <div className="mt-2 space-y-2">
+                    <Textarea
+                      id="content"
+                      value={activeVariant?.text ?? ''}
+                      onChange={(e) => setVariant(activeTab, { text: e.target.value })}
+                      placeholder={formData.content || 'Uses the text for all platforms'}
+                      className="min-h-[100px] dark:bg-gray-700 dark:text-white dark:border-gray-600"
+                    />
+                    {formData.media_urls.length > 0 && (
+                      <div className="flex flex-wrap gap-x-4 gap-y-1">
+                        {formData.media_urls.map((url) => (
+                          <label key={url} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                            <input
+                              type="checkbox"
+                              checked={activeMediaUrls.includes(url)}
+                              onChange={() => toggleVariantMedia(activeTab, url)}
+                            />
+                            {fileNameFromUrl(url)}
+                          </label>
+                        ))}
+                      </div>
+                    )}
+                    <div className="flex items-center justify-between">
+                      <p className="text-xs text-gray-500 dark:text-gray-400">
+                        Leave empty to post the text for all platforms.
+                      </p>
+                      {activeVariant && (
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => clearVariant(activeTab)}
+                        >
+                          Reset to all platforms
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                )}
+              </div>
+
+              <div>
+                <Label htmlFor="first_comment" className="dark:text-gray-200">
+                  First Comment (optional)
+                </Label>
                 <Textarea
-                  id="content"
-                  value={formData.content}
+                  id="first_comment"
+                  value={
+                    activeTab === BASE_TAB ? formData.first_comment : activeVariant?.firstComment ?? ''
+                  }
                   onChange={(e) =>
-                    setFormData({ ...formData, content: e.target.value })
+                    activeTab === BASE_TAB
+                      ? setFormData({ ...formData, first_comment: e.target.value })
+                      : setVariant(activeTab, { firstComment: e.target.value })
                   }
-                  placeholder="What would you like to post?"
-                  className="mt-2 min-h-[100px] dark:bg-gray-700 dark:text-white dark:border-gray-600"
-                  required
+                  placeholder={
+                    activeTab === BASE_TAB
+                      ? 'Posted as a comment right after publishing, e.g. hashtags'
+                      : formData.first_comment || 'Uses the first comment for all platforms'
+                  }
+                  className="mt-2 min-h-[60px] dark:bg-gray-700 dark:text-white dark:border-gray-600"
                 />
               </div>
 
@@ -184,13 +532,13 @@ export function SchedulerView() {
               </div>
 
               <div>
-                <Label className="dark:text-gray-200">Media (Images/Videos)</Label>
+                <Label className="dark:text-gray-200">Media (Images/Videos/PDF documents)</Label>
                 <div className="mt-2 space-y-3">
                   <div className="flex items-center gap-2">
                     <Input
                       id="media-upload"
                       type="file"
-                      accept="image/*,video/*"
+                      accept="image/*,video/*,application/pdf"
                       multiple
                       onChange={handleMediaUpload}
                       className="hidden"
@@ -211,7 +559,7 @@ export function SchedulerView() {
                       ) : (
                         <>
                           <Upload className="w-4 h-4 mr-2" />
-                          Upload Images/Videos
+                          Upload Images/Videos/PDFs
                         </>
                       )}
                     </Button>
@@ -220,13 +568,18 @@ export function SchedulerView() {
                   {formData.media_urls.length > 0 && (
                     <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
                       {formData.media_urls.map((url, index) => {
-                        const isVideo = url.match(/\.(mp4|webm|ogg|mov)$/i);
+                        const mediaType = mediaTypeFromUrl(url);
                         return (
                           <div key={index} className="relative group">
-                            {isVideo ? (
+                            {mediaType === 'video' ? (
                               <div className="aspect-video bg-gray-100 rounded-lg flex items-center justify-center">
                                 <Video className="w-8 h-8 text-gray-400" />
                               </div>
+                            ) : mediaType === 'document' ? (
+                              <div className="aspect-video bg-gray-100 rounded-lg flex flex-col items-center justify-center gap-1 p-2">
+                                <FileText className="w-8 h-8 text-gray-400" />
+                                <span className="text-xs text-gray-500 truncate max-w-full">{fileNameFromUrl(url)}</span>
+                              </div>
                             ) : (
                               <img
                                 src={url}
@@ -250,29 +603,218 @@ export function SchedulerView() {
               </div>
 
               <div>
-                <Label className="dark:text-gray-200">Select Platforms</Label>
-                <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mt-2">
-                  {platforms.map((platform) => (
-                    <button
-                      key={platform}
+                <Label htmlFor="link_url" className="dark:text-gray-200">Link Card (optional)</Label>
+                <div className="mt-2 space-y-2">
+                  <Input
+                    id="link_url"
+                    type="url"
+                    value={formData.link.url}
+                    onChange={(e) =>
+                      setFormData({ ...formData, link: { ...formData.link, url: e.target.value } })
+                    }
+                    placeholder="https://example.com/article"
+                    className="dark:bg-gray-700 dark:text-white dark:border-gray-600"
+                  />
+                  {formData.link.url && (
+                    <>
+                      <Input
+                        value={formData.link.title}
+                        onChange={(e) =>
+                          setFormData({ ...formData, link: { ...formData.link, title: e.target.value } })
+                        }
+                        placeholder="Card title"
+                        className="dark:bg-gray-700 dark:text-white dark:border-gray-600"
+                      />
+                      <Input
+                        value={formData.link.description}
+                        onChange={(e) =>
+                          setFormData({ ...formData, link: { ...formData.link, description: e.target.value } })
+                        }
+                        placeholder="Card description"
+                        className="dark:bg-gray-700 dark:text-white dark:border-gray-600"
+                      />
+                    </>
+                  )}
+                </div>
+              </div>
+
+              <div>
+                <Label className="dark:text-gray-200">Select Accounts</Label>
+                <AccountPicker
+                  accounts={accounts}
+                  selected={formData.account_ids}
+                  onChange={selectAccounts}
+                  onReconnected={loadAccounts}
+                />
+              </div>
+
+              {formData.platforms.includes('twitter') && (
+                <div className="p-4 rounded-lg bg-gray-50 dark:bg-gray-700/50 space-y-2">
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm font-medium text-gray-900 dark:text-white">
+                      X thread
+                    </span>
+                    <span className="text-xs text-gray-500 dark:text-gray-400">
+                      {twitterSegments.length > 1
+                        ? `Posts as a thread of ${twitterSegments.length} tweets`
+                        : 'Fits in a single tweet'}
+                    </span>
+                  </div>
+                  <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                    <input
+                      type="checkbox"
+                      checked={twitterNumbering}
+                      onChange={(e) => setTwitterNumbering(e.target.checked)}
+                    />
+                    Number tweets (1/n)
+                  </label>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    Long text is split at sentence boundaries. Put a line with only --- where you want a tweet to end.
+                  </p>
+                </div>
+              )}
+
+              {showReelOptions && (
+                <div className="p-4 rounded-lg bg-gray-50 dark:bg-gray-700/50 space-y-2">
+                  <span className="text-sm font-medium text-gray-900 dark:text-white">
+                    Instagram Reel
+                  </span>
+                  <div className="flex items-center gap-3">
+                    <input
+                      type="file"
+                      id="reel-cover-upload"
+                      accept="image/*"
+                      onChange={handleCoverUpload}
+                      className="hidden"
+                      disabled={uploadingCover}
+                    />
+                    <Button
                       type="button"
-                      onClick={() => togglePlatform(platform)}
-                      className={`p-3 border-2 rounded-lg capitalize transition-all ${
-                        formData.platforms.includes(platform)
-                          ? 'border-blue-600 bg-blue-50 dark:bg-blue-900/30 dark:text-white'
-                          : 'border-gray-200 dark:border-gray-700 hover:border-gray-300 dark:hover:border-gray-600 dark:text-gray-300'
-                      }`}
+                      variant="outline"
+                      size="sm"
+                      onClick={() => document.getElementById('reel-cover-upload')?.click()}
+                      disabled={uploadingCover}
                     >
-                      {platform}
-                    </button>
-                  ))}
+                      {uploadingCover ? (
+                        <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                      ) : (
+                        <Image className="w-4 h-4 mr-2" />
+                      )}
+                      {instagramReel.coverUrl ? 'Change cover' : 'Upload cover'}
+                    </Button>
+                    {instagramReel.coverUrl && (
+                      <img
+                        src={instagramReel.coverUrl}
+                        alt="Reel cover"
+                        className="w-10 h-16 object-cover rounded"
+                      />
+                    )}
+                  </div>
+                  <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                    <input
+                      type="checkbox"
+                      checked={instagramReel.shareToFeed ?? true}
+                      onChange={(e) => setInstagramReel({ shareToFeed: e.target.checked })}
+                    />
+                    Also share to feed
+                  </label>
                 </div>
-              </div>
+              )}
+
+              {formData.platforms.includes('threads') && (
+                <div className="p-4 rounded-lg bg-gray-50 dark:bg-gray-700/50 space-y-2">
+                  <Label htmlFor="threads-reply-control" className="dark:text-gray-200">
+                    Threads: who can reply
+                  </Label>
+                  <select
+                    id="threads-reply-control"
+                    value={threadsReplyControl}
+                    onChange={(e) => setThreadsReplyControl(e.target.value)}
+                    className="w-full h-10 px-3 rounded-md border border-gray-300 bg-white text-sm dark:bg-gray-700 dark:text-white dark:border-gray-600"
+                  >
+                    {THREADS_REPLY_CONTROLS.map((control) => (
+                      <option key={control.value} value={control.value}>
+                        {control.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
+              {formData.platforms.includes('tiktok') && (
+                <div className="p-4 rounded-lg bg-gray-50 dark:bg-gray-700/50 space-y-2">
+                  <Label htmlFor="tiktok-privacy" className="dark:text-gray-200">
+                    TikTok: who can view this video
+                  </Label>
+                  <select
+                    id="tiktok-privacy"
+                    value={tiktokPrivacy.level ?? ''}
+                    onChange={(e) => setTikTokPrivacy({ level: e.target.value || undefined })}
+                    className="w-full h-10 px-3 rounded-md border border-gray-300 bg-white text-sm dark:bg-gray-700 dark:text-white dark:border-gray-600"
+                  >
+                    <option value="">Select privacy level</option>
+                    {TIKTOK_PRIVACY_LEVELS.map((level) => (
+                      <option key={level.value} value={level.value}>
+                        {level.label}
+                      </option>
+                    ))}
+                  </select>
+                  <div className="flex flex-wrap gap-4">
+                    {([
+                      ['disableComment', 'Allow comments'],
+                      ['disableDuet', 'Allow Duet'],
+                      ['disableStitch', 'Allow Stitch'],
+                    ] as const).map(([setting, label]) => (
+                      <label
+                        key={setting}
+                        className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300"
+                      >
+                        <input
+                          type="checkbox"
+                          checked={!tiktokPrivacy[setting]}
+                          onChange={(e) => setTikTokPrivacy({ [setting]: !e.target.checked })}
+                        />
+                        {label}
+                      </label>
+                    ))}
+                  </div>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    TikTok posts need exactly one video. Interactions turned off in the TikTok app stay off.
+                  </p>
+                </div>
+              )}
+
+              {formData.platforms.includes('mastodon') && (
+                <div className="p-4 rounded-lg bg-gray-50 dark:bg-gray-700/50 space-y-2">
+                  <span className="text-sm font-medium text-gray-900 dark:text-white">
+                    Mastodon
+                  </span>
+                  <select
+                    value={mastodonOptions.privacy?.level ?? 'public'}
+                    onChange={(e) => setMastodonOptions({ privacy: { level: e.target.value } })}
+                    className="w-full h-10 px-3 rounded-md border border-gray-300 bg-white text-sm dark:bg-gray-700 dark:text-white dark:border-gray-600"
+                  >
+                    {MASTODON_VISIBILITIES.map((visibility) => (
+                      <option key={visibility.value} value={visibility.value}>
+                        {visibility.label}
+                      </option>
+                    ))}
+                  </select>
+                  <Input
+                    value={mastodonOptions.contentWarning ?? ''}
+                    onChange={(e) => setMastodonOptions({ contentWarning: e.target.value })}
+                    placeholder="Content warning (optional)"
+                    className="dark:bg-gray-700 dark:text-white dark:border-gray-600"
+                  />
+                </div>
+              )}
+
+              <ValidationIssues issues={validationIssues} />
 
               <div className="flex gap-3">
                 <Button
                   type="submit"
-                  disabled={saving || formData.platforms.length === 0}
+                  disabled={saving || formData.account_ids.length === 0 || needsTikTokPrivacy || hasValidationErrors}
                   className="flex-1"
                 >
                   {saving ? (
@@ -330,14 +872,19 @@ export function SchedulerView() {
                       })}
                     </CardTitle>
                     <div className="flex gap-2">
-                      {post.platforms?.map((platform: string) => (
-                        <span
-                          key={platform}
-                          className="px-2 py-1 bg-blue-100 text-blue-700 text-xs font-medium rounded capitalize"
-                        >
-                          {platform}
-                        </span>
-                      ))}
+                      {post.account_ids?.map((accountId: string) => {
+                        const account = accounts.find((acc) => acc.id === accountId);
+                        return (
+                          <span
+                            key={accountId}
+                            className="px-2 py-1 bg-blue-100 text-blue-700 text-xs font-medium rounded"
+                          >
+                            {account
+                              ? `${getPlatformAdapter(account.platform)?.name ?? account.platform} ${account.account_handle}`
+                              : 'Disconnected account'}
+                          </span>
+                        );
+                      })}
                     </div>
                   </div>
                 </div>
@@ -347,13 +894,18 @@ export function SchedulerView() {
                 {post.media_urls && post.media_urls.length > 0 && (
                   <div className="grid grid-cols-2 md:grid-cols-3 gap-3 mt-4">
                     {post.media_urls.map((url: string, index: number) => {
-                      const isVideo = url.match(/\.(mp4|webm|ogg|mov)$/i);
+                      const mediaType = mediaTypeFromUrl(url);
                       return (
                         <div key={index}>
-                          {isVideo ? (
+                          {mediaType === 'video' ? (
                             <div className="aspect-video bg-gray-100 rounded-lg flex items-center justify-center">
                               <Video className="w-8 h-8 text-gray-400" />
                             </div>
+                          ) : mediaType === 'document' ? (
+                            <div className="aspect-video bg-gray-100 rounded-lg flex flex-col items-center justify-center gap-1 p-2">
+                              <FileText className="w-8 h-8 text-gray-400" />
+                              <span className="text-xs text-gray-500 truncate max-w-full">{fileNameFromUrl(url)}</span>
+                            </div>
                           ) : (
                             <img
                               src={url}
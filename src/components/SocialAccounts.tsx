@@ -3,8 +3,12 @@ import { supabase } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { Button } from './ui/button';
-import { Share2, Loader2, CheckCircle2, Plus } from 'lucide-react';
+import { Share2, Loader2, Plus, Unplug } from 'lucide-react';
 import { SocialMediaLogin } from './SocialMediaLogin';
+import { AccountHealthBadge } from './AccountHealthBadge';
+import { ReconnectButton } from './ReconnectButton';
+import { getPlatformAdapter, listPlatformAdapters } from '../services/platforms';
+import { disconnectAccount, removeAccount } from '../services/disconnect';
 
 export function SocialAccounts() {
   const { user } = useAuth();
@@ -15,13 +19,7 @@ export function SocialAccounts() {
   const [showLoginPage, setShowLoginPage] = useState(false);
   const [selectedPlatform, setSelectedPlatform] = useState<any>(null);
 
-  const platforms = [
-    { id: 'twitter', name: 'Twitter', icon: '𝕏', color: 'bg-black' },
-    { id: 'linkedin', name: 'LinkedIn', icon: '💼', color: 'bg-blue-700' },
-    { id: 'instagram', name: 'Instagram', icon: '📷', color: 'bg-pink-600' },
-    { id: 'facebook', name: 'Facebook', icon: '📘', color: 'bg-blue-600' },
-    { id: 'tiktok', name: 'TikTok', icon: '🎵', color: 'bg-black' },
-  ];
+  const platforms = listPlatformAdapters();
 
   useEffect(() => {
     if (user) {
@@ -44,7 +42,7 @@ export function SocialAccounts() {
     try {
       const { data, error } = await supabase
         .from('social_accounts')
-        .select('*')
+        .select('id, platform, account_name, account_handle, is_connected, instance_url, health_state, health_error, created_at')
         .eq('user_id', user!.id)
         .order('created_at', { ascending: false });
 
@@ -73,16 +71,16 @@ export function SocialAccounts() {
     setConnecting(selectedPlatform.id);
 
     try {
+      const handle = credentials.username.startsWith('@') ? credentials.username : `@${credentials.username}`;
       const { error: insertError } = await supabase
         .from('social_accounts')
         .insert({
           user_id: user?.id,
           platform: selectedPlatform.id,
           account_name: selectedPlatform.name,
-          account_handle: credentials.username.startsWith('@') ? credentials.username : `@${credentials.username}`,
-          access_token: 'connected',
-          refresh_token: null,
-          token_expires_at: null,
+          account_handle: handle,
+          // No profile lookup on this path, so the handle stands in for the id.
+          external_account_id: handle,
         });
 
       if (insertError) {
@@ -93,17 +91,10 @@ export function SocialAccounts() {
       setShowAddMenu(false);
       setShowLoginPage(false);
 
-      // Redirect to the social media platform
-      const platformUrls: Record<string, string> = {
-        twitter: 'https://twitter.com',
-        linkedin: 'https://linkedin.com',
-        instagram: 'https://instagram.com',
-        facebook: 'https://facebook.com',
-      };
-
-      const platformUrl = platformUrls[selectedPlatform.id];
-      if (platformUrl) {
-        window.open(platformUrl, '_blank');
+      // Open the account on the social media platform
+      const profileUrl = getPlatformAdapter(selectedPlatform.id)?.profileUrl?.(handle);
+      if (profileUrl) {
+        window.open(profileUrl, '_blank');
       }
 
       setSelectedPlatform(null);
@@ -121,21 +112,30 @@ export function SocialAccounts() {
     setConnecting(null);
   };
 
-  const handleDisconnectAccount = async (accountId: string) => {
-    if (!confirm('Are you sure you want to disconnect this account?')) {
+  // Disconnecting keeps the account's post history and analytics; removing
+  // deletes them with it. Both revoke access at the provider first.
+  const handleDisconnectAccount = async (accountId: string, remove: boolean) => {
+    const prompt = remove
+      ? 'Remove this account? Its post history and analytics are deleted too.'
+      : 'Disconnect this account? Its post history and analytics are kept.';
+    if (!confirm(prompt)) {
       return;
     }
 
     try {
-      const { error } = await supabase
-        .from('social_accounts')
-        .delete()
-        .eq('id', accountId);
-
-      if (error) throw error;
+      const result = remove ? await removeAccount(accountId) : await disconnectAccount(accountId);
+      if (result.revokeError) {
+        alert(
+          `The account's access could not be revoked (${result.revokeError}). ` +
+          'Remove the app from the network\'s own settings to withdraw it.'
+        );
+      } else if (result.revokeManually) {
+        alert(`This network does not let the app withdraw its own access. ${result.revokeManually}`);
+      }
       loadAccounts();
     } catch (error) {
       console.error('Error disconnecting account:', error);
+      alert(error instanceof Error ? error.message : 'Failed to disconnect account');
     }
   };
 
@@ -168,7 +168,7 @@ export function SocialAccounts() {
           <CardContent>
             <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
               {platforms.map((platform) => {
-                const isConnected = accounts.some((acc) => acc.platform === platform.id);
+                const connectedCount = accounts.filter((acc) => acc.platform === platform.id && acc.is_connected).length;
                 const isConnecting = connecting === platform.id;
 
                 return (
@@ -176,7 +176,7 @@ export function SocialAccounts() {
                     key={platform.id}
                     variant="outline"
                     onClick={() => handleConnectAccount(platform.id)}
-                    disabled={isConnecting || isConnected}
+                    disabled={isConnecting}
                     className="h-auto py-4 justify-start"
                   >
                     <div className={`${platform.color} p-2 rounded-lg text-lg mr-3`}>
@@ -184,8 +184,8 @@ export function SocialAccounts() {
                     </div>
                     <div className="flex-1 text-left">
                       <div className="font-semibold">{platform.name}</div>
-                      {isConnected && (
-                        <div className="text-xs text-green-600">Already connected</div>
+                      {connectedCount > 0 && (
+                        <div className="text-xs text-green-600">{connectedCount} connected</div>
                       )}
                       {isConnecting && (
                         <div className="text-xs text-blue-600">Connecting...</div>
@@ -231,15 +231,30 @@ export function SocialAccounts() {
                         {account.account_handle}
                       </p>
                       <div className="mt-3 flex items-center gap-2">
-                        <span className="inline-flex items-center gap-1 px-2 py-1 bg-green-100 text-green-700 text-xs font-medium rounded">
-                          <CheckCircle2 className="w-3 h-3" />
-                          Connected
-                        </span>
+                        {account.is_connected ? (
+                          <AccountHealthBadge state={account.health_state} error={account.health_error} />
+                        ) : (
+                          <span className="inline-flex items-center gap-1 px-2 py-1 bg-gray-100 text-gray-600 text-xs font-medium rounded">
+                            <Unplug className="w-3 h-3" />
+                            Disconnected
+                          </span>
+                        )}
+                        {(!account.is_connected || account.health_state !== 'healthy') && (
+                          <ReconnectButton account={account} onReconnected={loadAccounts} />
+                        )}
+                        {account.is_connected && (
+                          <button
+                            onClick={() => handleDisconnectAccount(account.id, false)}
+                            className="text-xs text-red-600 hover:text-red-800 hover:underline"
+                          >
+                            Disconnect
+                          </button>
+                        )}
                         <button
-                          onClick={() => handleDisconnectAccount(account.id)}
+                          onClick={() => handleDisconnectAccount(account.id, true)}
                           className="text-xs text-red-600 hover:text-red-800 hover:underline"
                         >
-                          Disconnect
+                          Remove
                         </button>
                       </div>
                     </div>
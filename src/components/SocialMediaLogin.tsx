@@ -3,7 +3,11 @@ import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { Button } from './ui/button';
 import { ArrowLeft, Loader2, CheckCircle } from 'lucide-react';
 import { initiateOAuth } from '../services/oauth';
+import { connectDestination, connectWithPassword } from '../services/sessionAuth';
+import { getPlatformAdapter } from '../services/platforms';
 import { supabase } from '../lib/supabase';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
 
 interface SocialMediaLoginProps {
   platform: {
@@ -13,12 +17,27 @@ interface SocialMediaLoginProps {
     color: string;
   };
   onBack: () => void;
-  onLogin: (credentials: { username: string; password: string }) => Promise<void>;
+  onLogin?: (credentials: { username: string; password: string }) => Promise<void>;
 }
 
 export function SocialMediaLogin({ platform, onBack }: SocialMediaLoginProps) {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [instanceUrl, setInstanceUrl] = useState('');
+  const [identifier, setIdentifier] = useState('');
+  const [appPassword, setAppPassword] = useState('');
+  const [destinationValues, setDestinationValues] = useState<Record<string, string>>({});
+
+  const adapter = getPlatformAdapter(platform.id);
+  const instanceBased = !!adapter?.oauth?.instanceBased;
+  const passwordBased = !!adapter?.createSession;
+  const destinationFields = adapter?.destination?.fields;
+  const redirectsToPlatform = !passwordBased && !destinationFields;
+  const missingInput = instanceBased
+    ? !instanceUrl.trim()
+    : destinationFields
+      ? destinationFields.some((field) => !destinationValues[field.name]?.trim())
+      : passwordBased && (!identifier.trim() || !appPassword);
 
   const handleConnect = async () => {
     alert('handleConnect was called!');
@@ -37,9 +56,20 @@ export function SocialMediaLogin({ platform, onBack }: SocialMediaLoginProps) {
         throw new Error('You must be logged in to connect social accounts');
       }
 
+      if (passwordBased || destinationFields) {
+        if (destinationFields) {
+          await connectDestination(platform.id, destinationValues);
+        } else {
+          await connectWithPassword(platform.id, identifier, appPassword);
+        }
+        window.postMessage({ type: 'oauth_success', platform: platform.id }, window.location.origin);
+        onBack();
+        return;
+      }
+
       const sessionData = JSON.stringify(session);
       console.log('About to initiate OAuth with session data length:', sessionData.length);
-      await initiateOAuth(platform.id, sessionData);
+      await initiateOAuth(platform.id, sessionData, instanceBased ? instanceUrl : undefined);
     } catch (err: any) {
       console.error('Connect error:', err);
       setError(err.message || 'Failed to connect. Please try again.');
@@ -75,23 +105,87 @@ export function SocialMediaLogin({ platform, onBack }: SocialMediaLoginProps) {
           )}
 
           <div className="space-y-4">
-            <div className="p-4 bg-gray-50 rounded-lg">
-              <h4 className="font-semibold mb-2">What happens next?</h4>
-              <ul className="space-y-2 text-sm text-gray-600">
-                <li className="flex items-start gap-2">
-                  <CheckCircle className="w-4 h-4 mt-0.5 text-green-600 flex-shrink-0" />
-                  <span>You'll be redirected to {platform.name}</span>
-                </li>
-                <li className="flex items-start gap-2">
-                  <CheckCircle className="w-4 h-4 mt-0.5 text-green-600 flex-shrink-0" />
-                  <span>Authorize access to post and manage content</span>
-                </li>
-                <li className="flex items-start gap-2">
-                  <CheckCircle className="w-4 h-4 mt-0.5 text-green-600 flex-shrink-0" />
-                  <span>You'll be returned here after authorization</span>
-                </li>
-              </ul>
-            </div>
+            {instanceBased && (
+              <div>
+                <Label htmlFor="instance-url">Your server</Label>
+                <Input
+                  id="instance-url"
+                  value={instanceUrl}
+                  onChange={(e) => setInstanceUrl(e.target.value)}
+                  placeholder="mastodon.social"
+                  className="mt-2"
+                  disabled={isLoading}
+                />
+              </div>
+            )}
+
+            {passwordBased && (
+              <>
+                <div>
+                  <Label htmlFor="identifier">Handle</Label>
+                  <Input
+                    id="identifier"
+                    value={identifier}
+                    onChange={(e) => setIdentifier(e.target.value)}
+                    placeholder="you.bsky.social"
+                    className="mt-2"
+                    disabled={isLoading}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="app-password">App password</Label>
+                  <Input
+                    id="app-password"
+                    type="password"
+                    value={appPassword}
+                    onChange={(e) => setAppPassword(e.target.value)}
+                    placeholder="xxxx-xxxx-xxxx-xxxx"
+                    className="mt-2"
+                    disabled={isLoading}
+                  />
+                  <p className="text-xs text-gray-500 mt-1">
+                    Create one under Settings → Privacy and security → App passwords. Your main password is never needed.
+                  </p>
+                </div>
+              </>
+            )}
+
+            {destinationFields?.map((field) => (
+              <div key={field.name}>
+                <Label htmlFor={`destination-${field.name}`}>{field.label}</Label>
+                <Input
+                  id={`destination-${field.name}`}
+                  type={field.secret ? 'password' : 'text'}
+                  value={destinationValues[field.name] ?? ''}
+                  onChange={(e) =>
+                    setDestinationValues((values) => ({ ...values, [field.name]: e.target.value }))
+                  }
+                  placeholder={field.placeholder}
+                  className="mt-2"
+                  disabled={isLoading}
+                />
+              </div>
+            ))}
+
+            {redirectsToPlatform && (
+              <div className="p-4 bg-gray-50 rounded-lg">
+                <h4 className="font-semibold mb-2">What happens next?</h4>
+                <ul className="space-y-2 text-sm text-gray-600">
+                  <li className="flex items-start gap-2">
+                    <CheckCircle className="w-4 h-4 mt-0.5 text-green-600 flex-shrink-0" />
+                    <span>You'll be redirected to {platform.name}</span>
+                  </li>
+                  <li className="flex items-start gap-2">
+                    <CheckCircle className="w-4 h-4 mt-0.5 text-green-600 flex-shrink-0" />
+                    <span>Authorize access to post and manage content</span>
+                  </li>
+                  <li className="flex items-start gap-2">
+                    <CheckCircle className="w-4 h-4 mt-0.5 text-green-600 flex-shrink-0" />
+                    <span>You'll be returned here after authorization</span>
+                  </li>
+                </ul>
+              </div>
+            )}
 
             <div className="flex gap-3 pt-4">
               <Button
@@ -106,7 +200,7 @@ export function SocialMediaLogin({ platform, onBack }: SocialMediaLoginProps) {
               <Button
                 onClick={handleConnect}
                 className="flex-1 bg-blue-600 hover:bg-blue-700"
-                disabled={isLoading}
+                disabled={isLoading || missingInput}
               >
                 {isLoading ? (
                   <>
@@ -0,0 +1,31 @@
+import { getPlatformAdapter } from '../services/platforms';
+
+export interface TargetAccount {
+  id: string;
+  platform: string;
+  account_handle: string;
+}
+
+export const targetAccountsSelect = 'id, platform, account_handle';
+
+interface TargetAccountsProps {
+  accountIds: string[] | null;
+  accounts: TargetAccount[];
+}
+
+// The accounts a post was written for, from its account_ids. Accounts removed
+// since are still counted so the list never silently shrinks.
+export function TargetAccounts({ accountIds, accounts }: TargetAccountsProps) {
+  if (!accountIds?.length) {
+    return null;
+  }
+
+  const labels = accountIds.map((accountId) => {
+    const account = accounts.find((acc) => acc.id === accountId);
+    return account
+      ? `${getPlatformAdapter(account.platform)?.name ?? account.platform} ${account.account_handle}`
+      : 'Removed account';
+  });
+
+  return <span className="text-xs text-gray-500">{labels.join(', ')}</span>;
+}
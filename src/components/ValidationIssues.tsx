@@ -0,0 +1,42 @@
+import { AlertTriangle, XCircle } from 'lucide-react';
+import { getPlatformAdapter, type ValidationIssue } from '../services/platforms';
+
+interface ValidationIssuesProps {
+  issues: ValidationIssue[];
+}
+
+export function ValidationIssues({ issues }: ValidationIssuesProps) {
+  if (issues.length === 0) {
+    return null;
+  }
+
+  const platforms = [...new Set(issues.map((issue) => issue.platform))];
+
+  return (
+    <div className="p-4 rounded-lg border border-gray-200 dark:border-gray-700 space-y-3">
+      {platforms.map((platform) => (
+        <div key={platform}>
+          <p className="text-sm font-medium text-gray-900 dark:text-white">
+            {getPlatformAdapter(platform)?.name ?? platform}
+          </p>
+          <ul className="mt-1 space-y-1">
+            {issues
+              .filter((issue) => issue.platform === platform)
+              .map((issue, index) => (
+                <li key={index} className="flex items-start gap-2 text-sm">
+                  {issue.level === 'error' ? (
+                    <XCircle className="w-4 h-4 mt-0.5 text-red-600 flex-shrink-0" />
+                  ) : (
+                    <AlertTriangle className="w-4 h-4 mt-0.5 text-amber-500 flex-shrink-0" />
+                  )}
+                  <span className={issue.level === 'error' ? 'text-red-700 dark:text-red-400' : 'text-gray-700 dark:text-gray-300'}>
+                    {issue.message}
+                  </span>
+                </li>
+              ))}
+          </ul>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -58,11 +58,20 @@ export type Database = {
         Row: {
           id: string;
           user_id: string;
-          platform: 'twitter' | 'linkedin' | 'instagram' | 'facebook';
+          platform:
+            | 'twitter' | 'linkedin' | 'instagram' | 'facebook' | 'threads' | 'tiktok'
+            | 'mastodon' | 'bluesky' | 'telegram' | 'discord';
           account_name: string;
           account_handle: string;
+          external_account_id: string;
           is_connected: boolean;
-          access_token: string | null;
+          // access_token and refresh_token are encrypted and cannot be read
+          // with the anon key.
+          token_expires_at: string | null;
+          instance_url: string | null;
+          health_state: 'healthy' | 'expiring' | 'needs_reconnect' | 'revoked';
+          health_error: string | null;
+          health_checked_at: string | null;
           created_at: string;
           updated_at: string;
         };
@@ -73,14 +82,45 @@ export type Database = {
           user_id: string;
           content: string;
           platforms: string[];
-          status: 'draft' | 'scheduled' | 'published' | 'failed';
+          account_ids: string[];
+          status: 'draft' | 'scheduled' | 'publishing' | 'published' | 'failed';
           scheduled_for: string | null;
           published_at: string | null;
+          publish_error: string | null;
+          publish_started_at: string | null;
           media_urls: string[];
+          platform_options: Record<string, unknown>;
+          link: { url: string; title?: string; description?: string } | null;
+          media_metadata: Record<string, { width?: number; height?: number; durationSeconds?: number; sizeBytes?: number }>;
+          platform_variants: Record<string, { text?: string; mediaUrls?: string[]; firstComment?: string }>;
+          first_comment: string | null;
           created_at: string;
           updated_at: string;
         };
       };
+      post_publications: {
+        Row: {
+          id: string;
+          user_id: string;
+          content_post_id: string | null;
+          social_account_id: string;
+          platform: string;
+          external_post_id: string | null;
+          permalink: string | null;
+          thread_post_ids: string[];
+          status: 'pending' | 'published' | 'partial' | 'failed';
+          idempotency_key: string | null;
+          error: string | null;
+          error_category: 'rate_limited' | 'transient' | 'auth' | 'duplicate' | 'invalid' | null;
+          attempt: number;
+          attempted_at: string;
+          deleted_at: string | null;
+          edited_at: string | null;
+          first_comment_id: string | null;
+          first_comment_error: string | null;
+          created_at: string;
+        };
+      };
       analytics_data: {
         Row: {
           id: string;
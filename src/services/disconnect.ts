@@ -0,0 +1,30 @@
+import { invokeFunction } from './edgeFunctions';
+
+// Both run in the disconnect-account function, which revokes the app's access
+// at the provider before touching the stored account.
+export interface DisconnectResult {
+  revoked: boolean;
+  // Why the provider refused; access then has to be withdrawn from the
+  // network's own settings.
+  revokeError?: string;
+  // Where to withdraw access on networks that cannot revoke it through
+  // their API.
+  revokeManually?: string;
+}
+
+// Deletes the account's tokens but keeps the account, its post history and
+// analytics. Reconnecting the same account brings it back.
+export async function disconnectAccount(accountId: string): Promise<DisconnectResult> {
+  return await invokeFunction<DisconnectResult>('disconnect-account', {
+    action: 'disconnect',
+    accountId,
+  });
+}
+
+// Deletes the account together with its publications.
+export async function removeAccount(accountId: string): Promise<DisconnectResult> {
+  return await invokeFunction<DisconnectResult>('disconnect-account', {
+    action: 'remove',
+    accountId,
+  });
+}
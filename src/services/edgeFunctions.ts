@@ -0,0 +1,14 @@
+import { supabase } from '../lib/supabase';
+
+// Calls one of the app's edge functions as the signed-in user and surfaces
+// the function's own error message when it fails.
+export async function invokeFunction<T>(name: string, body: Record<string, unknown>): Promise<T> {
+  const { data, error } = await supabase.functions.invoke(name, { body });
+
+  if (error) {
+    const details = await error.context?.json?.().catch(() => null);
+    throw new Error(details?.error || error.message);
+  }
+
+  return data;
+}
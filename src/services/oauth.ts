@@ -1,10 +1,14 @@
+import { invokeFunction } from './edgeFunctions';
+import { getPlatformAdapter, type AccountProfile } from './platforms';
+
 interface OAuthConfig {
   clientId: string;
-  clientSecret: string;
+  clientIdParam: string;
   redirectUri: string;
   authorizationUrl: string;
   tokenUrl: string;
   scope: string;
+  instanceBased: boolean;
 }
 
 const getRedirectUri = (platform: string) => {
@@ -12,48 +16,27 @@ const getRedirectUri = (platform: string) => {
   return `${baseUrl}/auth/callback/${platform}`;
 };
 
-const oauthConfigs: Record<string, () => OAuthConfig> = {
-  twitter: () => ({
-    clientId: import.meta.env.VITE_TWITTER_CLIENT_ID || '',
-    clientSecret: import.meta.env.VITE_TWITTER_CLIENT_SECRET || '',
-    redirectUri: getRedirectUri('twitter'),
-    authorizationUrl: 'https://twitter.com/i/oauth2/authorize',
-    tokenUrl: 'https://api.twitter.com/2/oauth2/token',
-    scope: 'tweet.read tweet.write users.read offline.access',
-  }),
-  linkedin: () => ({
-    clientId: import.meta.env.VITE_LINKEDIN_CLIENT_ID || '',
-    clientSecret: import.meta.env.VITE_LINKEDIN_CLIENT_SECRET || '',
-    redirectUri: getRedirectUri('linkedin'),
-    authorizationUrl: 'https://www.linkedin.com/oauth/v2/authorization',
-    tokenUrl: 'https://www.linkedin.com/oauth/v2/accessToken',
-    scope: 'r_liteprofile r_emailaddress w_member_social',
-  }),
-  instagram: () => ({
-    clientId: import.meta.env.VITE_INSTAGRAM_CLIENT_ID || '',
-    clientSecret: import.meta.env.VITE_INSTAGRAM_CLIENT_SECRET || '',
-    redirectUri: getRedirectUri('instagram'),
-    authorizationUrl: 'https://api.instagram.com/oauth/authorize',
-    tokenUrl: 'https://api.instagram.com/oauth/access_token',
-    scope: 'user_profile,user_media',
-  }),
-  facebook: () => ({
-    clientId: import.meta.env.VITE_FACEBOOK_CLIENT_ID || '',
-    clientSecret: import.meta.env.VITE_FACEBOOK_CLIENT_SECRET || '',
-    redirectUri: getRedirectUri('facebook'),
-    authorizationUrl: 'https://www.facebook.com/v18.0/dialog/oauth',
-    tokenUrl: 'https://graph.facebook.com/v18.0/oauth/access_token',
-    scope: 'pages_show_list,pages_read_engagement,pages_manage_posts,publish_to_groups',
-  }),
-  tiktok: () => ({
-    clientId: import.meta.env.VITE_TIKTOK_CLIENT_ID || '',
-    clientSecret: import.meta.env.VITE_TIKTOK_CLIENT_SECRET || '',
-    redirectUri: getRedirectUri('tiktok'),
-    authorizationUrl: 'https://www.tiktok.com/auth/authorize/',
-    tokenUrl: 'https://open-api.tiktok.com/oauth/access_token/',
-    scope: 'user.info.basic,video.upload,video.publish',
-  }),
-};
+// Only the public client id is part of the app. Client secrets only exist as
+// edge function secrets: the oauth-token function exchanges codes and
+// refreshes tokens, and instance-based platforms register one client per
+// instance behind the <platform>-oauth function.
+function getOAuthConfig(platform: string): OAuthConfig | undefined {
+  const oauth = getPlatformAdapter(platform)?.oauth;
+  if (!oauth) {
+    return undefined;
+  }
+
+  const envPrefix = `VITE_${platform.toUpperCase()}`;
+  return {
+    clientId: import.meta.env[`${envPrefix}_CLIENT_ID`] || '',
+    clientIdParam: oauth.clientIdParam ?? 'client_id',
+    redirectUri: getRedirectUri(platform),
+    authorizationUrl: oauth.authorizationUrl,
+    tokenUrl: oauth.tokenUrl,
+    scope: oauth.scope,
+    instanceBased: !!oauth.instanceBased,
+  };
+}
 
 export function generateCodeVerifier(): string {
   const array = new Uint8Array(32);
@@ -83,8 +66,31 @@ export function generateState(): string {
     .replace(/=/g, '');
 }
 
-export async function initiateOAuth(platform: string, supabaseSession?: string): Promise<void> {
-  const config = oauthConfigs[platform]?.();
+export async function initiateOAuth(
+  platform: string,
+  supabaseSession?: string,
+  instanceUrl?: string
+): Promise<void> {
+  let config = getOAuthConfig(platform);
+
+  if (config?.instanceBased) {
+    if (!instanceUrl) {
+      throw new Error(`Enter your ${platform} server to connect.`);
+    }
+
+    const app = await invokeFunction<{ instanceUrl: string; clientId: string }>(`${platform}-oauth`, {
+      action: 'register',
+      instanceUrl,
+      redirectUri: config.redirectUri,
+    });
+
+    sessionStorage.setItem(`oauth_instance_${platform}`, app.instanceUrl);
+    config = {
+      ...config,
+      clientId: app.clientId,
+      authorizationUrl: `${app.instanceUrl}${config.authorizationUrl}`,
+    };
+  }
 
   console.log('OAuth Debug:', {
     platform,
@@ -123,7 +129,7 @@ export async function initiateOAuth(platform: string, supabaseSession?: string):
   }
 
   const params = new URLSearchParams({
-    client_id: config.clientId,
+    [config.clientIdParam]: config.clientId,
     redirect_uri: config.redirectUri,
     response_type: 'code',
     scope: config.scope,
@@ -135,19 +141,20 @@ export async function initiateOAuth(platform: string, supabaseSession?: string):
   window.location.href = `${config.authorizationUrl}?${params.toString()}`;
 }
 
-export interface OAuthTokenResponse {
-  access_token: string;
-  refresh_token?: string;
-  expires_in?: number;
-  token_type: string;
+// Tokens are saved to social_accounts by the oauth-token function and never
+// come back. Platforms that publish as Pages answer with `connectable`
+// instead; the picked ones are then saved with connectAccounts.
+export interface OAuthConnection {
+  accounts?: AccountProfile[];
+  connectable?: AccountProfile[];
 }
 
-export async function exchangeCodeForToken(
+export async function completeOAuth(
   platform: string,
   code: string,
   state: string
-): Promise<OAuthTokenResponse> {
-  const config = oauthConfigs[platform]?.();
+): Promise<OAuthConnection> {
+  const config = getOAuthConfig(platform);
 
   if (!config) {
     throw new Error(`OAuth not configured for ${platform}`);
@@ -163,65 +170,45 @@ export async function exchangeCodeForToken(
     throw new Error('Code verifier not found');
   }
 
-  const body = new URLSearchParams({
-    grant_type: 'authorization_code',
-    code: code,
-    redirect_uri: config.redirectUri,
-    client_id: config.clientId,
-    client_secret: config.clientSecret,
-    code_verifier: codeVerifier,
-  });
-
-  const response = await fetch(config.tokenUrl, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/x-www-form-urlencoded',
-    },
-    body: body.toString(),
-  });
-
-  if (!response.ok) {
-    const errorData = await response.text();
-    throw new Error(`Token exchange failed: ${errorData}`);
+  let instanceUrl: string | undefined;
+  if (config.instanceBased) {
+    instanceUrl = sessionStorage.getItem(`oauth_instance_${platform}`) ?? undefined;
+    if (!instanceUrl) {
+      throw new Error('Server not found. Please start the connection again.');
+    }
   }
 
-  const data = await response.json();
+  const connection = await invokeFunction<OAuthConnection>('oauth-token', {
+    action: 'exchange',
+    platform,
+    redirectUri: config.redirectUri,
+    code,
+    codeVerifier,
+    instanceUrl,
+  });
 
   sessionStorage.removeItem(`oauth_state_${platform}`);
   sessionStorage.removeItem(`oauth_verifier_${platform}`);
+  sessionStorage.removeItem(`oauth_instance_${platform}`);
 
-  return data;
+  return connection;
 }
 
-export async function refreshAccessToken(
+// Page tokens are fetched again with the user token the function kept from
+// the exchange, so the picks only need the Pages' ids.
+export async function connectAccounts(
   platform: string,
-  refreshToken: string
-): Promise<OAuthTokenResponse> {
-  const config = oauthConfigs[platform]?.();
-
-  if (!config) {
-    throw new Error(`OAuth not configured for ${platform}`);
-  }
-
-  const body = new URLSearchParams({
-    grant_type: 'refresh_token',
-    refresh_token: refreshToken,
-    client_id: config.clientId,
-    client_secret: config.clientSecret,
-  });
-
-  const response = await fetch(config.tokenUrl, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/x-www-form-urlencoded',
-    },
-    body: body.toString(),
+  accountIds: string[]
+): Promise<AccountProfile[]> {
+  const { accounts } = await invokeFunction<OAuthConnection>('oauth-token', {
+    action: 'connect',
+    platform,
+    accountIds,
   });
+  return accounts ?? [];
+}
 
-  if (!response.ok) {
-    const errorData = await response.text();
-    throw new Error(`Token refresh failed: ${errorData}`);
-  }
-
-  return await response.json();
+// Refreshes the account's tokens server-side if they are about to expire.
+export async function refreshAccountTokens(accountId: string): Promise<void> {
+  await invokeFunction('oauth-token', { action: 'refresh', accountId });
 }
@@ -0,0 +1,411 @@
+import { apiError, failureResult, usernameNotFound } from './errors.ts';
+import { detectFacets } from './facets.ts';
+import { downloadMedia } from './media.ts';
+import type {
+  AccountContext,
+  PlatformAdapter,
+  PostContent,
+  PostMedia,
+  PostResult,
+  SessionTokens,
+} from './types.ts';
+
+// Entryway for bsky.social accounts; self-hosted accounts are sent to their
+// own PDS, found through the DID document.
+const DEFAULT_SERVICE = 'https://bsky.social';
+const PUBLIC_APPVIEW = 'https://public.api.bsky.app';
+const POST_COLLECTION = 'app.bsky.feed.post';
+const MAX_IMAGE_BYTES = 1_000_000;
+const MAX_GRAPHEMES = 300;
+
+interface DidDocument {
+  service?: { id: string; type: string; serviceEndpoint: string }[];
+}
+
+async function readBlueskyError(response: Response, fallback: string): Promise<never> {
+  const error = await response.json().catch(() => ({}));
+  throw apiError(response, error.message || error.error || fallback);
+}
+
+function decodeJwtPayload(token: string): { sub?: string; exp?: number } {
+  const payload = token.split('.')[1] ?? '';
+  const base64 = payload.replace(/-/g, '+').replace(/_/g, '/');
+  try {
+    return JSON.parse(atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, '=')));
+  } catch {
+    return {};
+  }
+}
+
+function expiresAtFromJwt(token: string): string | null {
+  const { exp } = decodeJwtPayload(token);
+  return exp ? new Date(exp * 1000).toISOString() : null;
+}
+
+// The access JWT's subject is the account DID, which every repo write needs.
+function didFromJwt(token: string): string {
+  const { sub } = decodeJwtPayload(token);
+  if (!sub) {
+    throw new Error('Bluesky session is missing the account DID. Please reconnect the account.');
+  }
+  return sub;
+}
+
+function pdsFromDidDocument(doc: DidDocument | undefined): string | undefined {
+  return doc?.service?.find((service) => service.id.endsWith('#atproto_pds'))?.serviceEndpoint;
+}
+
+async function resolveHandle(handle: string): Promise<string | undefined> {
+  const response = await fetch(
+    `${DEFAULT_SERVICE}/xrpc/com.atproto.identity.resolveHandle?handle=${encodeURIComponent(handle)}`
+  );
+  if (!response.ok) return undefined;
+
+  const data = await response.json();
+  return data.did;
+}
+
+async function resolvePds(identifier: string): Promise<string> {
+  if (identifier.includes('@')) {
+    return DEFAULT_SERVICE;
+  }
+
+  const did = await resolveHandle(identifier);
+  if (!did) {
+    return DEFAULT_SERVICE;
+  }
+
+  const docUrl = did.startsWith('did:web:')
+    ? `https://${did.slice('did:web:'.length)}/.well-known/did.json`
+    : `https://plc.directory/${did}`;
+  const response = await fetch(docUrl);
+  if (!response.ok) {
+    return DEFAULT_SERVICE;
+  }
+
+  return pdsFromDidDocument(await response.json()) ?? DEFAULT_SERVICE;
+}
+
+function validateBlueskyMedia(media: PostMedia[]): void {
+  if (media.some((item) => item.type !== 'image')) {
+    throw new Error('Bluesky posts support images only');
+  }
+  if (media.length > 4) {
+    throw new Error('Bluesky posts can have at most 4 images');
+  }
+  const tooLarge = media.find((item) => item.sizeBytes && item.sizeBytes > MAX_IMAGE_BYTES);
+  if (tooLarge) {
+    throw new Error('Bluesky images must be 1 MB or smaller');
+  }
+}
+
+async function uploadBlob(accessToken: string, pdsUrl: string, blob: Blob) {
+  if (blob.size > MAX_IMAGE_BYTES) {
+    throw new Error('Bluesky images must be 1 MB or smaller');
+  }
+
+  const response = await fetch(`${pdsUrl}/xrpc/com.atproto.repo.uploadBlob`, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      'Content-Type': blob.type || 'image/jpeg',
+    },
+    body: blob,
+  });
+
+  if (!response.ok) {
+    await readBlueskyError(response, 'Failed to upload image to Bluesky');
+  }
+
+  const data = await response.json();
+  return data.blob;
+}
+
+// Images win over a link card: a post carries a single embed.
+async function buildEmbed(accessToken: string, pdsUrl: string, content: PostContent) {
+  const media = content.media ?? [];
+
+  if (media.length > 0) {
+    const images = [];
+    for (const item of media) {
+      const blob = await uploadBlob(accessToken, pdsUrl, await downloadMedia(item.url));
+      images.push({
+        alt: item.altText ?? '',
+        image: blob,
+        ...(item.width && item.height && {
+          aspectRatio: { width: item.width, height: item.height },
+        }),
+      });
+    }
+    return { $type: 'app.bsky.embed.images', images };
+  }
+
+  if (content.link) {
+    return {
+      $type: 'app.bsky.embed.external',
+      external: {
+        uri: content.link.url,
+        title: content.link.title ?? '',
+        description: content.link.description ?? '',
+      },
+    };
+  }
+
+  return undefined;
+}
+
+function requirePds(account: Pick<AccountContext, 'instanceUrl'>): string {
+  return account.instanceUrl ?? DEFAULT_SERVICE;
+}
+
+function rkeyFromUri(uri: string): string {
+  return uri.substring(uri.lastIndexOf('/') + 1);
+}
+
+async function postToBluesky(
+  accessToken: string,
+  content: PostContent,
+  account: AccountContext
+): Promise<PostResult> {
+  try {
+    const pdsUrl = requirePds(account);
+    const did = didFromJwt(accessToken);
+
+    // Bluesky counts graphemes; code points are never fewer, so this errs strict.
+    if ([...content.text].length > MAX_GRAPHEMES) {
+      throw new Error(`Bluesky posts can be at most ${MAX_GRAPHEMES} characters`);
+    }
+    validateBlueskyMedia(content.media ?? []);
+
+    const facets = await detectFacets(content.text, resolveHandle);
+    const embed = await buildEmbed(accessToken, pdsUrl, content);
+
+    const response = await fetch(`${pdsUrl}/xrpc/com.atproto.repo.createRecord`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        repo: did,
+        collection: POST_COLLECTION,
+        record: {
+          $type: POST_COLLECTION,
+          text: content.text,
+          createdAt: new Date().toISOString(),
+          ...(facets.length > 0 && { facets }),
+          ...(embed && { embed }),
+        },
+      }),
+    });
+
+    if (!response.ok) {
+      await readBlueskyError(response, 'Failed to post to Bluesky');
+    }
+
+    const data = await response.json();
+    return {
+      success: true,
+      postId: data.uri,
+      postUrl: `https://bsky.app/profile/${account.handle}/post/${rkeyFromUri(data.uri)}`,
+    };
+  } catch (error) {
+    return failureResult(error, 'Failed to post to Bluesky');
+  }
+}
+
+export const blueskyAdapter: PlatformAdapter = {
+  id: 'bluesky',
+  name: 'Bluesky',
+  icon: '🦋',
+  color: 'bg-sky-500',
+  limits: {
+    maxLength: MAX_GRAPHEMES,
+    maxMedia: 4,
+    requiresMedia: false,
+    mediaTypes: ['image'],
+    maxBytes: { image: MAX_IMAGE_BYTES },
+  },
+
+  // App passwords are exchanged for a session once and never stored.
+  async createSession(identifier, password) {
+    const login = identifier.trim().replace(/^@/, '');
+    const pdsUrl = await resolvePds(login);
+
+    const response = await fetch(`${pdsUrl}/xrpc/com.atproto.server.createSession`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ identifier: login, password }),
+    });
+
+    if (!response.ok) {
+      await readBlueskyError(response, 'Failed to sign in to Bluesky');
+    }
+
+    const session = await response.json();
+    const instanceUrl = pdsFromDidDocument(session.didDoc) ?? pdsUrl;
+    const profile = await blueskyAdapter.fetchProfile(session.accessJwt, instanceUrl);
+
+    return {
+      ...profile,
+      accessToken: session.accessJwt,
+      refreshToken: session.refreshJwt,
+      expiresAt: expiresAtFromJwt(session.accessJwt),
+      instanceUrl,
+    };
+  },
+
+  async refreshSession(refreshToken, instanceUrl): Promise<SessionTokens> {
+    const response = await fetch(
+      `${instanceUrl ?? DEFAULT_SERVICE}/xrpc/com.atproto.server.refreshSession`,
+      {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${refreshToken}` },
+      }
+    );
+
+    if (!response.ok) {
+      await readBlueskyError(response, 'Failed to refresh Bluesky session');
+    }
+
+    const session = await response.json();
+    return {
+      accessToken: session.accessJwt,
+      refreshToken: session.refreshJwt,
+      expiresAt: expiresAtFromJwt(session.accessJwt),
+    };
+  },
+
+  async fetchProfile(accessToken, instanceUrl) {
+    const response = await fetch(
+      `${instanceUrl ?? DEFAULT_SERVICE}/xrpc/app.bsky.actor.getProfile?actor=${didFromJwt(accessToken)}`,
+      { headers: { Authorization: `Bearer ${accessToken}` } }
+    );
+
+    if (!response.ok) {
+      throw apiError(response, 'Failed to fetch account info from bluesky');
+    }
+
+    const data = await response.json();
+    return {
+      id: data.did,
+      name: data.displayName || data.handle,
+      handle: data.handle,
+    };
+  },
+
+  profileUrl: (handle) => `https://bsky.app/profile/${handle.replace(/^@/, '')}`,
+
+  // Profiles are public through the Bluesky AppView.
+  async verifyUsername(username) {
+    const response = await fetch(
+      `${PUBLIC_APPVIEW}/xrpc/app.bsky.actor.getProfile?actor=${encodeURIComponent(username.replace(/^@/, ''))}`
+    );
+
+    if (response.status === 400) {
+      throw usernameNotFound('Bluesky');
+    }
+    if (!response.ok) {
+      await readBlueskyError(response, 'Failed to look up Bluesky handle');
+    }
+
+    const data = await response.json();
+    return {
+      id: data.did,
+      name: data.displayName || data.handle,
+      handle: data.handle,
+    };
+  },
+
+  publish: (accessToken, content, account) =>
+    postToBluesky(accessToken, content, account),
+
+  async findPost(accessToken, content, account, since) {
+    const params = new URLSearchParams({
+      repo: didFromJwt(accessToken),
+      collection: POST_COLLECTION,
+      limit: '25',
+    });
+    const response = await fetch(
+      `${requirePds(account)}/xrpc/com.atproto.repo.listRecords?${params}`,
+      { headers: { Authorization: `Bearer ${accessToken}` } }
+    );
+
+    if (!response.ok) {
+      await readBlueskyError(response, 'Failed to list recent Bluesky posts');
+    }
+
+    const data = await response.json();
+    const match = data.records?.find((record: { value: { text: string; createdAt: string } }) =>
+      record.value.text === content.text && Date.parse(record.value.createdAt) >= Date.parse(since)
+    );
+
+    return match
+      ? {
+          success: true,
+          postId: match.uri,
+          postUrl: `https://bsky.app/profile/${account.handle}/post/${rkeyFromUri(match.uri)}`,
+        }
+      : null;
+  },
+
+  async deletePost(accessToken, postId, account) {
+    const response = await fetch(`${requirePds(account)}/xrpc/com.atproto.repo.deleteRecord`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        repo: didFromJwt(accessToken),
+        collection: POST_COLLECTION,
+        rkey: rkeyFromUri(postId),
+      }),
+    });
+
+    if (!response.ok) {
+      await readBlueskyError(response, 'Failed to delete Bluesky post');
+    }
+  },
+
+  async fetchMetrics(accessToken, postId, account) {
+    const response = await fetch(
+      `${requirePds(account)}/xrpc/app.bsky.feed.getPosts?uris=${encodeURIComponent(postId)}`,
+      { headers: { Authorization: `Bearer ${accessToken}` } }
+    );
+
+    if (!response.ok) {
+      throw apiError(response, 'Failed to fetch Bluesky post metrics');
+    }
+
+    const data = await response.json();
+    const post = data.posts?.[0];
+    return {
+      likes: post?.likeCount ?? 0,
+      comments: post?.replyCount ?? 0,
+      shares: (post?.repostCount ?? 0) + (post?.quoteCount ?? 0),
+      views: 0,
+    };
+  },
+
+  // deleteSession takes the refresh JWT rather than the access token. The
+  // app password itself can only be revoked from Bluesky settings.
+  revoke: async ({ refreshToken, account }) => {
+    if (!refreshToken) {
+      return { revoked: false, manual: 'Delete the app password under Settings > Privacy and security in Bluesky.' };
+    }
+
+    const response = await fetch(
+      `${account.instanceUrl ?? DEFAULT_SERVICE}/xrpc/com.atproto.server.deleteSession`,
+      {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${refreshToken}` },
+      }
+    );
+
+    if (!response.ok) {
+      await readBlueskyError(response, 'Failed to end Bluesky session');
+    }
+    return { revoked: true };
+  },
+};
@@ -0,0 +1,153 @@
+import { apiError, failureResult } from './errors.ts';
+import { downloadMedia, fileNameFromUrl, MB } from './media.ts';
+import type { PlatformAdapter, PostContent, PostResult } from './types.ts';
+
+const WEBHOOK_URL_PATTERN = /^https:\/\/(?:(?:canary|ptb)\.)?discord(?:app)?\.com\/api\/(?:v\d+\/)?webhooks\/(\d+)\/[\w-]+$/;
+const MAX_ATTACHMENTS = 10;
+
+interface Webhook {
+  id: string;
+  name: string | null;
+  guild_id?: string;
+  channel_id: string;
+}
+
+async function readDiscordError(response: Response, fallback: string): Promise<never> {
+  const error = await response.json().catch(() => ({}));
+  throw apiError(response, error.message ? `Discord: ${error.message}` : fallback);
+}
+
+// The webhook URL is the credential: stored as the access token, it carries
+// the webhook token that authorizes posting.
+async function fetchWebhook(webhookUrl: string): Promise<Webhook> {
+  const response = await fetch(webhookUrl);
+  if (!response.ok) {
+    await readDiscordError(response, 'Discord webhook not found. It may have been deleted.');
+  }
+  return await response.json();
+}
+
+async function postToDiscord(webhookUrl: string, content: PostContent): Promise<PostResult> {
+  try {
+    const media = content.media ?? [];
+    if (media.length > MAX_ATTACHMENTS) {
+      throw new Error(`Discord messages can have at most ${MAX_ATTACHMENTS} attachments`);
+    }
+
+    const webhook = await fetchWebhook(webhookUrl);
+
+    const form = new FormData();
+    form.append('payload_json', JSON.stringify({
+      content: content.text,
+      ...(content.link && {
+        embeds: [{
+          url: content.link.url,
+          title: content.link.title || content.link.url,
+          description: content.link.description,
+        }],
+      }),
+    }));
+    for (const [index, item] of media.entries()) {
+      form.append(`files[${index}]`, await downloadMedia(item.url), fileNameFromUrl(item.url));
+    }
+
+    // wait=true makes Discord return the created message instead of 204.
+    const response = await fetch(`${webhookUrl}?wait=true`, {
+      method: 'POST',
+      body: form,
+    });
+
+    if (!response.ok) {
+      await readDiscordError(response, 'Failed to post to Discord');
+    }
+
+    const message = await response.json();
+    return {
+      success: true,
+      postId: message.id,
+      postUrl: webhook.guild_id
+        ? `https://discord.com/channels/${webhook.guild_id}/${message.channel_id}/${message.id}`
+        : undefined,
+    };
+  } catch (error) {
+    return failureResult(error, 'Failed to post to Discord');
+  }
+}
+
+export const discordAdapter: PlatformAdapter = {
+  id: 'discord',
+  name: 'Discord',
+  icon: '🎮',
+  color: 'bg-indigo-500',
+  limits: {
+    maxLength: 2000,
+    maxMedia: MAX_ATTACHMENTS,
+    requiresMedia: false,
+    mediaTypes: ['image', 'gif', 'video', 'document'],
+    maxBytes: { image: 10 * MB, gif: 10 * MB, video: 10 * MB, document: 10 * MB },
+  },
+
+  destination: {
+    fields: [
+      {
+        name: 'webhookUrl',
+        label: 'Webhook URL',
+        placeholder: 'https://discord.com/api/webhooks/…',
+        secret: true,
+      },
+    ],
+
+    async connect(values) {
+      const webhookUrl = values.webhookUrl?.trim() ?? '';
+      if (!WEBHOOK_URL_PATTERN.test(webhookUrl)) {
+        throw new Error('Enter a Discord webhook URL from Channel settings → Integrations → Webhooks');
+      }
+
+      const webhook = await fetchWebhook(webhookUrl);
+      return {
+        id: webhook.id,
+        name: webhook.name || 'Discord webhook',
+        handle: webhook.id,
+        accessToken: webhookUrl,
+      };
+    },
+  },
+
+  async fetchProfile(webhookUrl) {
+    const webhook = await fetchWebhook(webhookUrl);
+    return {
+      id: webhook.id,
+      name: webhook.name || 'Discord webhook',
+      handle: webhook.id,
+    };
+  },
+
+  publish: (webhookUrl, content) => postToDiscord(webhookUrl, content),
+
+  async deletePost(webhookUrl, postId) {
+    const response = await fetch(`${webhookUrl}/messages/${postId}`, { method: 'DELETE' });
+    if (response.status === 404) {
+      return;
+    }
+    if (!response.ok) {
+      await readDiscordError(response, 'Failed to delete Discord message');
+    }
+  },
+
+  async editPost(webhookUrl, postId, text) {
+    const response = await fetch(`${webhookUrl}/messages/${postId}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ content: text }),
+    });
+    if (!response.ok) {
+      await readDiscordError(response, 'Failed to edit Discord message');
+    }
+  },
+
+  // Webhooks are owned by the server; disconnecting just forgets the URL.
+  revoke: async () => ({
+    revoked: false,
+    manual: 'Delete the webhook under the channel\'s Integrations settings in Discord.',
+  }),
+};
@@ -0,0 +1,74 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { apiError, failureResult, PlatformApiError } from './errors.ts';
+
+const response = (status: number, headers: Record<string, string> = {}) =>
+  new Response(null, { status, headers });
+
+describe('apiError', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-01-01T00:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it.each([
+    [429, 'rate_limited'],
+    [408, 'transient'],
+    [503, 'transient'],
+    [401, 'auth'],
+    [403, 'auth'],
+    [400, 'invalid'],
+    [404, 'invalid'],
+  ])('classifies HTTP %i as %s', (status, category) => {
+    expect(apiError(response(status), 'Failed').category).toBe(category);
+  });
+
+  it('classifies a duplicate rejection by its message', () => {
+    expect(apiError(response(403), 'Status is a duplicate').category).toBe('duplicate');
+  });
+
+  it('reads Retry-After as seconds or as an HTTP date', () => {
+    expect(apiError(response(429, { 'Retry-After': '120' }), 'Slow down').retryAfterMs).toBe(120_000);
+    expect(apiError(response(503, { 'Retry-After': 'Wed, 01 Jan 2025 00:01:00 GMT' }), 'Down').retryAfterMs)
+      .toBe(60_000);
+  });
+
+  it('reads rate limit reset headers as epoch seconds or ISO timestamps', () => {
+    const resetAt = Date.parse('2025-01-01T00:15:00Z');
+
+    expect(apiError(response(429, { 'x-rate-limit-reset': String(resetAt / 1000) }), 'X').retryAfterMs)
+      .toBe(15 * 60_000);
+    expect(apiError(response(429, { 'x-ratelimit-reset': '2025-01-01T00:15:00Z' }), 'Mastodon').retryAfterMs)
+      .toBe(15 * 60_000);
+  });
+
+  it('ignores Retry-After on errors that are not retried', () => {
+    expect(apiError(response(400, { 'Retry-After': '120' }), 'Bad').retryAfterMs).toBeUndefined();
+  });
+
+  it('prefers the hints the adapter read from the body', () => {
+    const error = apiError(response(400), 'Too many calls', { category: 'rate_limited', retryAfterMs: 5_000 });
+
+    expect(error.category).toBe('rate_limited');
+    expect(error.retryAfterMs).toBe(5_000);
+  });
+});
+
+describe('failureResult', () => {
+  it('keeps the category of platform errors', () => {
+    expect(failureResult(new PlatformApiError('Slow down', 'rate_limited', 1_000), 'Failed')).toEqual({
+      success: false,
+      error: 'Slow down',
+      errorCategory: 'rate_limited',
+      retryAfterMs: 1_000,
+    });
+  });
+
+  it('treats network failures as transient and content checks as invalid', () => {
+    expect(failureResult(new TypeError('fetch failed'), 'Failed').errorCategory).toBe('transient');
+    expect(failureResult(new Error('Too many images'), 'Failed').errorCategory).toBe('invalid');
+  });
+});
@@ -0,0 +1,90 @@
+import type { ErrorCategory, PostResult } from './types.ts';
+
+// A failed platform request, classified so the publisher knows whether
+// trying again can help.
+export class PlatformApiError extends Error {
+  constructor(
+    message: string,
+    readonly category: ErrorCategory,
+    readonly retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = 'PlatformApiError';
+  }
+}
+
+// Thrown by verifyUsername when the network has no account by that name.
+export function usernameNotFound(network: string): PlatformApiError {
+  return new PlatformApiError(`Username not found on ${network}`, 'invalid');
+}
+
+export function isRetryable(category: ErrorCategory | undefined): boolean {
+  return category === 'rate_limited' || category === 'transient';
+}
+
+// Reset headers are epoch seconds on X and Bluesky but an ISO timestamp on
+// Mastodon; Retry-After is seconds or an HTTP date.
+function parseResetTime(value: string): number | undefined {
+  const seconds = Number(value);
+  const at = Number.isFinite(seconds) ? seconds * 1000 : Date.parse(value);
+  return Number.isNaN(at) ? undefined : Math.max(0, at - Date.now());
+}
+
+function retryAfterFromHeaders(headers: Headers): number | undefined {
+  const retryAfter = headers.get('retry-after');
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    return Number.isFinite(seconds) ? seconds * 1000 : parseResetTime(retryAfter);
+  }
+
+  const reset = headers.get('x-rate-limit-reset')
+    ?? headers.get('x-ratelimit-reset')
+    ?? headers.get('ratelimit-reset');
+  return reset ? parseResetTime(reset) : undefined;
+}
+
+function categorizeStatus(status: number, message: string): ErrorCategory {
+  if (status === 429) return 'rate_limited';
+  if (status === 408 || status >= 500) return 'transient';
+  if (/duplicate/i.test(message)) return 'duplicate';
+  if (status === 401 || status === 403) return 'auth';
+  return 'invalid';
+}
+
+// Builds the error for a non-2xx response. Adapters pass hints when the
+// network signals the category in its body instead of the status (Meta
+// answers rate limits with 400, for example).
+export function apiError(
+  response: Response,
+  message: string,
+  hints: { category?: ErrorCategory; retryAfterMs?: number } = {}
+): PlatformApiError {
+  const category = hints.category ?? categorizeStatus(response.status, message);
+  const retryAfterMs = isRetryable(category)
+    ? hints.retryAfterMs ?? retryAfterFromHeaders(response.headers)
+    : undefined;
+  return new PlatformApiError(message, category, retryAfterMs);
+}
+
+// Turns whatever an adapter caught into a failed PostResult. fetch rejects
+// with a TypeError when the network fails, which is worth retrying; other
+// plain errors come from the adapters' own checks on the content.
+export function failureResult(
+  error: unknown,
+  fallback: string,
+  extra: Partial<PostResult> = {}
+): PostResult {
+  const category: ErrorCategory = error instanceof PlatformApiError
+    ? error.category
+    : error instanceof TypeError
+    ? 'transient'
+    : 'invalid';
+
+  return {
+    ...extra,
+    success: false,
+    error: error instanceof Error ? error.message : fallback,
+    errorCategory: category,
+    retryAfterMs: error instanceof PlatformApiError ? error.retryAfterMs : undefined,
+  };
+}
@@ -0,0 +1,270 @@
+import { apiError, failureResult, usernameNotFound } from './errors.ts';
+import { findRecentGraphPost, graphPost, readGraphError } from './graph.ts';
+import { MB } from './media.ts';
+import type { PlatformAdapter, PostContent, PostMedia, PostResult } from './types.ts';
+
+const GRAPH_URL = 'https://graph.facebook.com/v18.0';
+
+// Rejects combinations the Pages API has no single post type for.
+function validateFacebookMedia(media: PostMedia[]): void {
+  if (media.some((item) => item.type === 'document')) {
+    throw new Error('Facebook Pages do not support document posts');
+  }
+
+  const videos = media.filter((item) => item.type === 'video');
+  if (videos.length > 0 && media.length > 1) {
+    throw new Error('Facebook video posts can contain only one video');
+  }
+}
+
+// Photos, GIFs and link previews all publish through the page feed; a single
+// video goes to /videos. Multi-photo posts upload each photo unpublished and
+// attach them to one feed post.
+async function createFacebookPost(
+  pageToken: string,
+  content: PostContent,
+  pageId: string
+): Promise<string> {
+  const media = content.media ?? [];
+
+  if (media.length === 1 && media[0].type === 'video') {
+    const video = await graphPost(
+      `${GRAPH_URL}/${pageId}/videos`,
+      {
+        file_url: media[0].url,
+        description: content.text,
+        access_token: pageToken,
+      },
+      'Failed to upload Facebook video'
+    );
+    return video.id;
+  }
+
+  if (media.length === 1) {
+    const photo = await graphPost<{ id: string; post_id?: string }>(
+      `${GRAPH_URL}/${pageId}/photos`,
+      {
+        url: media[0].url,
+        caption: content.text,
+        ...(media[0].altText && { alt_text_custom: media[0].altText }),
+        access_token: pageToken,
+      },
+      'Failed to upload Facebook photo'
+    );
+    return photo.post_id ?? photo.id;
+  }
+
+  const attachedMedia: { media_fbid: string }[] = [];
+  for (const item of media) {
+    const photo = await graphPost(
+      `${GRAPH_URL}/${pageId}/photos`,
+      {
+        url: item.url,
+        published: false,
+        ...(item.altText && { alt_text_custom: item.altText }),
+        access_token: pageToken,
+      },
+      'Failed to upload Facebook photo'
+    );
+    attachedMedia.push({ media_fbid: photo.id });
+  }
+
+  const post = await graphPost(
+    `${GRAPH_URL}/${pageId}/feed`,
+    {
+      message: content.text,
+      ...(attachedMedia.length > 0 && { attached_media: attachedMedia }),
+      ...(attachedMedia.length === 0 && content.link && { link: content.link.url }),
+      access_token: pageToken,
+    },
+    'Failed to post to Facebook'
+  );
+  return post.id;
+}
+
+async function postToFacebook(
+  pageToken: string,
+  content: PostContent,
+  pageId: string
+): Promise<PostResult> {
+  try {
+    validateFacebookMedia(content.media ?? []);
+
+    const postId = await createFacebookPost(pageToken, content, pageId);
+
+    const permalinkResponse = await fetch(
+      `${GRAPH_URL}/${postId}?fields=permalink_url&access_token=${pageToken}`
+    );
+    const permalinkData = permalinkResponse.ok ? await permalinkResponse.json() : null;
+
+    return {
+      success: true,
+      postId,
+      postUrl: permalinkData?.permalink_url ?? `https://www.facebook.com/${postId}`,
+    };
+  } catch (error) {
+    return failureResult(error, 'Failed to post to Facebook');
+  }
+}
+
+export const facebookAdapter: PlatformAdapter = {
+  id: 'facebook',
+  name: 'Facebook',
+  icon: '📘',
+  color: 'bg-blue-600',
+  oauth: {
+    authorizationUrl: 'https://www.facebook.com/v18.0/dialog/oauth',
+    tokenUrl: `${GRAPH_URL}/oauth/access_token`,
+    scope: 'pages_show_list,pages_read_engagement,pages_manage_posts,publish_to_groups',
+    longLivedToken: {
+      url: `${GRAPH_URL}/oauth/access_token`,
+      grantType: 'fb_exchange_token',
+      tokenParam: 'fb_exchange_token',
+    },
+  },
+  limits: {
+    maxLength: 63206,
+    maxMedia: 10,
+    requiresMedia: false,
+    mediaTypes: ['image', 'gif', 'video'],
+    aloneTypes: ['video'],
+    maxBytes: { image: 10 * MB, video: 1024 * MB },
+  },
+
+  async fetchProfile(accessToken) {
+    const response = await fetch('https://graph.facebook.com/me?fields=id,name', {
+      headers: { Authorization: `Bearer ${accessToken}` },
+    });
+
+    if (!response.ok) {
+      throw apiError(response, 'Failed to fetch account info from facebook');
+    }
+
+    const data = await response.json();
+    return {
+      id: data.id,
+      name: data.name,
+      handle: data.id,
+    };
+  },
+
+  profileUrl: (handle) => `https://facebook.com/${handle}`,
+
+  // Looks up a Page by id or username.
+  async verifyUsername(pageId, accessToken) {
+    const response = await fetch(
+      `${GRAPH_URL}/${encodeURIComponent(pageId)}?fields=id,name,username&access_token=${accessToken}`
+    );
+
+    if (response.status === 404) {
+      throw usernameNotFound('Facebook');
+    }
+    if (!response.ok) {
+      await readGraphError(response, 'Failed to look up Facebook Page');
+    }
+
+    const data = await response.json();
+    return {
+      id: data.id,
+      name: data.name,
+      handle: data.username || data.id,
+    };
+  },
+
+  // Pages the user manages, each with its own page access token. Tokens
+  // fetched with a long-lived user token do not expire.
+  async listConnectableAccounts(accessToken) {
+    const response = await fetch(
+      `${GRAPH_URL}/me/accounts?fields=id,name,access_token&limit=100&access_token=${accessToken}`
+    );
+
+    if (!response.ok) {
+      await readGraphError(response, 'Failed to list Facebook Pages');
+    }
+
+    const data = await response.json();
+    return (data.data ?? []).map((page: { id: string; name: string; access_token: string }) => ({
+      id: page.id,
+      name: page.name,
+      handle: page.id,
+      accessToken: page.access_token,
+    }));
+  },
+
+  publish: (accessToken, content, account) =>
+    postToFacebook(accessToken, content, account.externalId),
+
+  async postComment(accessToken, postId, text) {
+    const { id } = await graphPost(
+      `${GRAPH_URL}/${postId}/comments`,
+      { message: text, access_token: accessToken },
+      'Failed to comment on Facebook post'
+    );
+    return id;
+  },
+
+  findPost: (accessToken, content, _account, since) =>
+    findRecentGraphPost(
+      `${GRAPH_URL}/me/feed`,
+      accessToken,
+      { text: 'message', time: 'created_time', permalink: 'permalink_url' },
+      content.text,
+      since,
+      'Facebook'
+    ),
+
+  async deletePost(accessToken, postId) {
+    const response = await fetch(
+      `${GRAPH_URL}/${postId}?access_token=${accessToken}`,
+      { method: 'DELETE' }
+    );
+
+    if (response.status === 404) {
+      return;
+    }
+    if (!response.ok) {
+      await readGraphError(response, 'Failed to delete Facebook post');
+    }
+  },
+
+  async editPost(accessToken, postId, text) {
+    const response = await fetch(`${GRAPH_URL}/${postId}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ message: text, access_token: accessToken }),
+    });
+
+    if (!response.ok) {
+      await readGraphError(response, 'Failed to edit Facebook post');
+    }
+  },
+
+  async fetchMetrics(accessToken, postId) {
+    const response = await fetch(
+      `${GRAPH_URL}/${postId}?fields=shares,likes.summary(true),comments.summary(true)&access_token=${accessToken}`
+    );
+
+    if (!response.ok) {
+      throw apiError(response, 'Failed to fetch Facebook post metrics');
+    }
+
+    const data = await response.json();
+    return {
+      likes: data.likes?.summary?.total_count ?? 0,
+      comments: data.comments?.summary?.total_count ?? 0,
+      shares: data.shares?.count ?? 0,
+      views: 0,
+    };
+  },
+
+  // Accounts are Pages, and their tokens come from the grant of the user who
+  // connected them. Graph can only withdraw that grant as a whole, which
+  // would also cut off the user's other Pages and Instagram accounts, so the
+  // user removes it from their Facebook settings.
+  revoke: async () => ({
+    revoked: false,
+    manual: 'Remove the app under Settings > Business integrations on Facebook.',
+  }),
+};
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { detectFacets } from './facets.ts';
+
+const resolveHandle = async (handle: string) =>
+  handle === 'alice.bsky.social' ? 'did:plc:alice' : undefined;
+
+describe('detectFacets', () => {
+  it('indexes links, mentions and tags by UTF-8 byte offsets', async () => {
+    // "é" takes two bytes and "👋" four, so byte and string offsets differ.
+    const text = 'héllo 👋 https://example.com/a. @alice.bsky.social #tag';
+
+    expect(await detectFacets(text, resolveHandle)).toEqual([
+      {
+        index: { byteStart: 12, byteEnd: 33 },
+        features: [{ $type: 'app.bsky.richtext.facet#link', uri: 'https://example.com/a' }],
+      },
+      {
+        index: { byteStart: 35, byteEnd: 53 },
+        features: [{ $type: 'app.bsky.richtext.facet#mention', did: 'did:plc:alice' }],
+      },
+      {
+        index: { byteStart: 54, byteEnd: 58 },
+        features: [{ $type: 'app.bsky.richtext.facet#tag', tag: 'tag' }],
+      },
+    ]);
+  });
+
+  it('leaves mentions of unknown handles as plain text', async () => {
+    expect(await detectFacets('Hi @nobody.example.com', resolveHandle)).toEqual([]);
+  });
+
+  it('ignores hashtags made only of digits', async () => {
+    expect(await detectFacets('Issue #123', resolveHandle)).toEqual([]);
+  });
+});
@@ -0,0 +1,70 @@
+// AT Protocol rich text: links, mentions and hashtags are plain text plus
+// "facets" that annotate UTF-8 byte ranges. Without them Bluesky shows raw
+// URLs and mentions that do not link anywhere.
+
+export type FacetFeature =
+  | { $type: 'app.bsky.richtext.facet#link'; uri: string }
+  | { $type: 'app.bsky.richtext.facet#mention'; did: string }
+  | { $type: 'app.bsky.richtext.facet#tag'; tag: string };
+
+export interface Facet {
+  index: { byteStart: number; byteEnd: number };
+  features: FacetFeature[];
+}
+
+const URL_PATTERN = /(^|[\s(])(https?:\/\/[^\s]+)/g;
+const MENTION_PATTERN = /(^|[\s(])@(([a-zA-Z0-9]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?\.)+[a-zA-Z]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?)/g;
+const HASHTAG_PATTERN = /(^|\s)#([^\s#]*[^\d\s\p{P}][^\s#]*)/gu;
+const TRAILING_PUNCTUATION = /[.,;:!?)"'\]]+$/;
+
+const encoder = new TextEncoder();
+
+function byteRange(text: string, start: number, end: number) {
+  return {
+    byteStart: encoder.encode(text.slice(0, start)).length,
+    byteEnd: encoder.encode(text.slice(0, end)).length,
+  };
+}
+
+// Mentions only become facets when the handle resolves to a DID; unknown
+// handles stay plain text rather than pointing at nobody.
+export async function detectFacets(
+  text: string,
+  resolveHandle: (handle: string) => Promise<string | undefined>
+): Promise<Facet[]> {
+  const facets: Facet[] = [];
+
+  for (const match of text.matchAll(URL_PATTERN)) {
+    const uri = match[2].replace(TRAILING_PUNCTUATION, '');
+    const start = match.index! + match[1].length;
+    facets.push({
+      index: byteRange(text, start, start + uri.length),
+      features: [{ $type: 'app.bsky.richtext.facet#link', uri }],
+    });
+  }
+
+  for (const match of text.matchAll(MENTION_PATTERN)) {
+    const handle = match[2];
+    const did = await resolveHandle(handle);
+    if (!did) continue;
+
+    const start = match.index! + match[1].length;
+    facets.push({
+      index: byteRange(text, start, start + handle.length + 1),
+      features: [{ $type: 'app.bsky.richtext.facet#mention', did }],
+    });
+  }
+
+  for (const match of text.matchAll(HASHTAG_PATTERN)) {
+    const tag = match[2].replace(TRAILING_PUNCTUATION, '');
+    if (!tag || tag.length > 64) continue;
+
+    const start = match.index! + match[1].length;
+    facets.push({
+      index: byteRange(text, start, start + tag.length + 1),
+      features: [{ $type: 'app.bsky.richtext.facet#tag', tag }],
+    });
+  }
+
+  return facets.sort((a, b) => a.index.byteStart - b.index.byteStart);
+}
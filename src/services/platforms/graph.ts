@@ -0,0 +1,104 @@
+import { apiError } from './errors.ts';
+import { waitToPoll } from './http.ts';
+import type { ErrorCategory, PostResult } from './types.ts';
+
+// Request helpers shared by the Meta Graph API adapters (Facebook, Instagram
+// and Threads), which use the same JSON bodies and error shape.
+
+// Application, user and page level throttling, then the business use case
+// limits; Meta reports all of them with HTTP 400.
+const RATE_LIMIT_CODES = [4, 17, 32, 613, 80001, 80002, 80004, 80005, 80006, 80008, 80014];
+const INVALID_TOKEN_CODE = 190;
+const DUPLICATE_POST_CODE = 506;
+
+function graphErrorCategory(error: { code?: number; is_transient?: boolean } = {}): ErrorCategory | undefined {
+  if (error.code && RATE_LIMIT_CODES.includes(error.code)) return 'rate_limited';
+  if (error.is_transient) return 'transient';
+  if (error.code === INVALID_TOKEN_CODE) return 'auth';
+  if (error.code === DUPLICATE_POST_CODE) return 'duplicate';
+  return undefined;
+}
+
+export async function readGraphError(response: Response, fallback: string): Promise<never> {
+  const { error } = await response.json().catch(() => ({}));
+  throw apiError(response, error?.message || fallback, { category: graphErrorCategory(error) });
+}
+
+export async function graphPost<T extends { id: string } = { id: string }>(
+  url: string,
+  body: Record<string, unknown>,
+  fallback: string
+): Promise<T> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    await readGraphError(response, fallback);
+  }
+
+  return await response.json();
+}
+
+// Looks through an account's newest posts for one with the given text made at
+// or after `since`. `fields` names the text, time and permalink fields of the
+// edge, which differ between Facebook, Instagram and Threads.
+export async function findRecentGraphPost(
+  edgeUrl: string,
+  accessToken: string,
+  fields: { text: string; time: string; permalink: string },
+  text: string,
+  since: string,
+  network: string
+): Promise<PostResult | null> {
+  const response = await fetch(
+    `${edgeUrl}?fields=id,${fields.text},${fields.time},${fields.permalink}&limit=25&access_token=${accessToken}`
+  );
+
+  if (!response.ok) {
+    await readGraphError(response, `Failed to list recent ${network} posts`);
+  }
+
+  const { data } = await response.json();
+  const match = (data ?? []).find((post: Record<string, string>) =>
+    (post[fields.text] ?? '').trim() === text.trim() &&
+    Date.parse(post[fields.time]) >= Date.parse(since)
+  );
+
+  return match ? { success: true, postId: match.id, postUrl: match[fields.permalink] } : null;
+}
+
+// Media containers are processed asynchronously (video always, images usually
+// instantly) and publishing fails until the status is FINISHED. Instagram and
+// Threads name the status and error fields differently.
+export async function waitForContainer(
+  statusUrl: string,
+  fields: { status: string; error: string },
+  network: string,
+  deadline?: number
+): Promise<void> {
+  for (let attempt = 0; attempt < 60; attempt++) {
+    const response = await fetch(statusUrl);
+
+    if (!response.ok) {
+      await readGraphError(response, `Failed to check ${network} media status`);
+    }
+
+    const data = await response.json();
+    const status = data[fields.status];
+    if (status === 'FINISHED') {
+      return;
+    }
+    if (status === 'ERROR' || status === 'EXPIRED') {
+      throw new Error(data[fields.error] || `${network} could not process the media`);
+    }
+
+    await waitToPoll(5000, deadline);
+  }
+
+  throw new Error(`Timed out waiting for ${network} to process the media`);
+}
@@ -0,0 +1,59 @@
+import { apiError, PlatformApiError } from './errors.ts';
+import type { OAuthSettings, RevokeOutcome } from './types.ts';
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// `deadline` lets a caller stop short of the edge function's wall-clock
+// limit. Waits that would run past it fail as transient instead, so the post
+// is requeued and resumes through its idempotency key.
+export function hasTimeFor(ms: number, deadline?: number): boolean {
+  return deadline === undefined || Date.now() + ms < deadline;
+}
+
+// Sleeps between status checks while a network processes an upload.
+export async function waitToPoll(ms: number, deadline?: number): Promise<void> {
+  if (!hasTimeFor(ms, deadline)) {
+    throw new PlatformApiError('Ran out of time waiting for the media to be processed', 'transient');
+  }
+  await sleep(ms);
+}
+
+// Headers and form fields that authenticate the app's client at a token or
+// revoke endpoint.
+export function clientAuthentication(
+  oauth: Pick<OAuthSettings, 'clientIdParam' | 'tokenAuth'>,
+  client: { clientId: string; clientSecret: string }
+): { headers: Record<string, string>; params: Record<string, string> } {
+  const params = { [oauth.clientIdParam ?? 'client_id']: client.clientId };
+  if (oauth.tokenAuth === 'basic') {
+    return {
+      headers: { Authorization: `Basic ${btoa(`${client.clientId}:${client.clientSecret}`)}` },
+      params,
+    };
+  }
+  return { headers: {}, params: { ...params, client_secret: client.clientSecret } };
+}
+
+// Posts a form-encoded revocation request, the RFC 7009 shape most OAuth
+// providers use.
+export async function revokeWithForm(
+  url: string,
+  params: Record<string, string>,
+  headers: Record<string, string> = {}
+): Promise<RevokeOutcome> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      ...headers,
+      'Content-Type': 'application/x-www-form-urlencoded',
+    },
+    body: new URLSearchParams(params).toString(),
+  });
+
+  if (!response.ok) {
+    throw apiError(response, 'Failed to revoke access');
+  }
+  return { revoked: true };
+}
@@ -0,0 +1,177 @@
+// Platform adapter registry shared by the browser client and the Supabase
+// edge functions. Modules in this folder must stay runtime-agnostic: no
+// Supabase client, no import.meta.env and explicit `.ts` import paths so Deno
+// can load them as-is. Adding a network means adding one adapter module and
+// listing it below.
+import { twitterAdapter } from './twitter.ts';
+import { linkedinAdapter } from './linkedin.ts';
+import { instagramAdapter } from './instagram.ts';
+import { facebookAdapter } from './facebook.ts';
+import { tiktokAdapter } from './tiktok.ts';
+import { mastodonAdapter } from './mastodon.ts';
+import { blueskyAdapter } from './bluesky.ts';
+import { threadsAdapter } from './threads.ts';
+import { telegramAdapter } from './telegram.ts';
+import { discordAdapter } from './discord.ts';
+import { checkContent, type ValidationIssue } from './validation.ts';
+import { applyVariant } from './variants.ts';
+import type {
+  AccountContext,
+  PlatformAdapter,
+  PlatformVariant,
+  PostContent,
+  PostOptions,
+  PostResult,
+  PublishResume,
+} from './types.ts';
+
+export type {
+  AccountContext,
+  AccountHealth,
+  AccountProfile,
+  ConnectableAccount,
+  ContentLimits,
+  DestinationField,
+  DestinationSettings,
+  ErrorCategory,
+  MediaMetadata,
+  MediaType,
+  OAuthSettings,
+  PasswordSession,
+  PlatformAdapter,
+  PlatformVariant,
+  PostContent,
+  PostLink,
+  PostMedia,
+  PostMetrics,
+  PostOptions,
+  PostResult,
+  PrivacyOptions,
+  PublishResume,
+  ReelOptions,
+  RevokeOutcome,
+  RevokeRequest,
+  SessionTokens,
+  ThreadOptions,
+} from './types.ts';
+export { fileNameFromUrl, mediaFromUrls, mediaTypeFromUrl } from './media.ts';
+export { splitIntoThread } from './thread.ts';
+export { apiError, PlatformApiError, isRetryable } from './errors.ts';
+export { clientAuthentication, hasTimeFor } from './http.ts';
+export { MAX_ATTEMPTS, MAX_RETRY_WAIT_MS, publishWithRetry } from './retry.ts';
+export { applyVariant } from './variants.ts';
+export { tweetLength } from './twitterText.ts';
+export type { ValidationIssue } from './validation.ts';
+export { THREADS_REPLY_CONTROLS } from './threads.ts';
+export { TIKTOK_PRIVACY_LEVELS } from './tiktok.ts';
+export { MASTODON_VISIBILITIES, normalizeInstanceUrl } from './mastodon.ts';
+export {
+  buildPublicationRecord,
+  latestAttempts,
+  type FirstCommentRecord,
+  publicationKey,
+  publishOnce,
+  resumeFrom,
+  STALE_PENDING_MS,
+  UNIQUE_VIOLATION,
+  type HeldPublication,
+  type PreviousPublication,
+  type PublicationRecord,
+  type PublicationStore,
+  type PublicationTarget,
+} from './publications.ts';
+
+const adapters: PlatformAdapter[] = [
+  twitterAdapter,
+  linkedinAdapter,
+  instagramAdapter,
+  facebookAdapter,
+  threadsAdapter,
+  tiktokAdapter,
+  mastodonAdapter,
+  blueskyAdapter,
+  telegramAdapter,
+  discordAdapter,
+];
+
+export function listPlatformAdapters(): PlatformAdapter[] {
+  return adapters;
+}
+
+export function getPlatformAdapter(platform: string): PlatformAdapter | undefined {
+  return adapters.find((adapter) => adapter.id === platform);
+}
+
+export function publishToPlatform(
+  platform: string,
+  accessToken: string,
+  content: PostContent,
+  account: AccountContext,
+  resume?: PublishResume
+): Promise<PostResult> {
+  const adapter = getPlatformAdapter(platform);
+  if (!adapter) {
+    return Promise.resolve({
+      success: false,
+      error: `Unsupported platform: ${platform}`,
+    });
+  }
+
+  return adapter.publish(accessToken, content, account, resume);
+}
+
+// What can still be done to a post once it is published, for showing the
+// options before an account is touched.
+export function publishedPostActions(platform: string): { canDelete: boolean; canEdit: boolean } {
+  const adapter = getPlatformAdapter(platform);
+  return { canDelete: !!adapter?.deletePost, canEdit: !!adapter?.editPost };
+}
+
+// The `postComment` for publishOnce, or undefined when there is no first
+// comment or the network cannot take one.
+export function firstCommentPoster(
+  platform: string,
+  accessToken: string,
+  content: PostContent,
+  account: AccountContext
+): ((postId: string) => Promise<string>) | undefined {
+  const postComment = getPlatformAdapter(platform)?.postComment;
+  const text = content.firstComment?.trim();
+  return postComment && text
+    ? (postId) => postComment(accessToken, postId, text, account)
+    : undefined;
+}
+
+// The `findPost` for publishOnce, or undefined when the network has no way
+// to look up what an account posted.
+export function postFinder(
+  platform: string,
+  accessToken: string,
+  content: PostContent,
+  account: AccountContext
+): ((since: string) => Promise<PostResult | null>) | undefined {
+  const findPost = getPlatformAdapter(platform)?.findPost;
+  return findPost && ((since) => findPost(accessToken, content, account, since));
+}
+
+
+// Checks a draft against every selected platform's rules, as that platform
+// would receive it: its variant applied and its entry of
+// content_posts.platform_options. Unknown platforms are skipped since there
+// is nothing to publish them with anyway.
+export function validatePost(
+  platforms: string[],
+  content: PostContent,
+  platformOptions: Record<string, PostOptions> = {},
+  variants: Record<string, PlatformVariant> = {}
+): ValidationIssue[] {
+  return platforms.flatMap((platform) => {
+    const adapter = getPlatformAdapter(platform);
+    return adapter
+      ? checkContent(adapter, {
+          ...applyVariant(content, variants[platform]),
+          options: platformOptions[platform],
+        })
+      : [];
+  });
+}
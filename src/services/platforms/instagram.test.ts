@@ -0,0 +1,79 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { instagramAdapter } from './instagram.ts';
+import type { AccountContext } from './types.ts';
+
+const account: AccountContext = {
+  externalId: '17841400000000001',
+  handle: '@brand',
+};
+
+// Answers the Graph API calls a publish makes and records every URL.
+function stubGraph(): string[] {
+  const urls: string[] = [];
+  let containers = 0;
+
+  vi.stubGlobal('fetch', vi.fn(async (url: string) => {
+    urls.push(url);
+    const json = (body: unknown) => new Response(JSON.stringify(body), { status: 200 });
+
+    if (url.includes('fields=status_code')) return json({ status_code: 'FINISHED' });
+    if (url.includes('fields=permalink')) return json({ permalink: 'https://instagram.com/p/abc' });
+    if (url.endsWith('/media_publish')) return json({ id: 'media-1' });
+    if (url.endsWith('/media')) return json({ id: `container-${++containers}` });
+    if (url.endsWith('/comments')) return json({ id: 'comment-1' });
+    return new Response('{}', { status: 404 });
+  }));
+
+  return urls;
+}
+
+describe('instagramAdapter', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('creates and publishes containers under the numeric account id', async () => {
+    const urls = stubGraph();
+
+    const result = await instagramAdapter.publish(
+      'token',
+      { text: 'Hello', media: [{ url: 'https://cdn.example.com/a.jpg', type: 'image' }] },
+      account
+    );
+
+    expect(result).toMatchObject({ success: true, postId: 'media-1' });
+    expect(urls).toContain('https://graph.instagram.com/v18.0/17841400000000001/media');
+    expect(urls).toContain('https://graph.instagram.com/v18.0/17841400000000001/media_publish');
+    expect(urls.some((url) => url.includes('@brand'))).toBe(false);
+  });
+
+  it('builds carousels under the numeric account id', async () => {
+    const urls = stubGraph();
+
+    const result = await instagramAdapter.publish(
+      'token',
+      {
+        text: 'Hello',
+        media: [
+          { url: 'https://cdn.example.com/a.jpg', type: 'image' },
+          { url: 'https://cdn.example.com/b.jpg', type: 'image' },
+        ],
+      },
+      account
+    );
+
+    expect(result.success).toBe(true);
+    const creates = urls.filter((url) => url.endsWith('/media'));
+    expect(creates).toHaveLength(3);
+    expect(creates.every((url) => url.includes('/17841400000000001/media'))).toBe(true);
+  });
+
+  it('comments on the published media', async () => {
+    const urls = stubGraph();
+
+    const commentId = await instagramAdapter.postComment!('token', 'media-1', 'First!', account);
+
+    expect(commentId).toBe('comment-1');
+    expect(urls).toEqual(['https://graph.instagram.com/v18.0/media-1/comments']);
+  });
+});
@@ -0,0 +1,280 @@
+import { apiError, failureResult, PlatformApiError } from './errors.ts';
+import { findRecentGraphPost, graphPost, waitForContainer } from './graph.ts';
+import { MB } from './media.ts';
+import type { PlatformAdapter, PostContent, PostMedia, PostResult, ReelOptions } from './types.ts';
+
+const GRAPH_URL = 'https://graph.instagram.com/v18.0';
+
+const FEED_MIN_RATIO = 4 / 5;
+const FEED_MAX_RATIO = 1.91;
+const REEL_MIN_RATIO = 0.01;
+const REEL_MAX_RATIO = 10;
+const REEL_MIN_SECONDS = 3;
+const REEL_MAX_SECONDS = 15 * 60;
+const CAROUSEL_VIDEO_MAX_SECONDS = 60;
+
+function checkAspectRatio(media: PostMedia, min: number, max: number, label: string): void {
+  if (!media.width || !media.height) return;
+  const ratio = media.width / media.height;
+  if (ratio < min - 0.01 || ratio > max + 0.01) {
+    throw new Error(
+      `Instagram ${label} must have an aspect ratio between ${min.toFixed(2)}:1 and ${max.toFixed(2)}:1 (got ${ratio.toFixed(2)}:1)`
+    );
+  }
+}
+
+function checkDuration(media: PostMedia, min: number, max: number, label: string): void {
+  if (media.durationSeconds === undefined) return;
+  if (media.durationSeconds < min || media.durationSeconds > max) {
+    throw new Error(
+      `Instagram ${label} must be between ${min} and ${max} seconds long (got ${Math.round(media.durationSeconds)}s)`
+    );
+  }
+}
+
+// Rejects posts the Graph API would refuse, before any container is created.
+function validateInstagramMedia(media: PostMedia[]): void {
+  if (media.length === 0) {
+    throw new Error('Instagram posts require an image or video');
+  }
+  if (media.length > 10) {
+    throw new Error('Instagram carousels can contain at most 10 items');
+  }
+  if (media.some((item) => item.type === 'gif' || item.type === 'document')) {
+    throw new Error('Instagram only accepts images and videos');
+  }
+
+  if (media.length === 1) {
+    const [item] = media;
+    if (item.type === 'video') {
+      checkAspectRatio(item, REEL_MIN_RATIO, REEL_MAX_RATIO, 'Reels');
+      checkDuration(item, REEL_MIN_SECONDS, REEL_MAX_SECONDS, 'Reels');
+    } else {
+      checkAspectRatio(item, FEED_MIN_RATIO, FEED_MAX_RATIO, 'images');
+    }
+    return;
+  }
+
+  for (const item of media) {
+    checkAspectRatio(item, FEED_MIN_RATIO, FEED_MAX_RATIO, 'carousel items');
+    if (item.type === 'video') {
+      checkDuration(item, REEL_MIN_SECONDS, CAROUSEL_VIDEO_MAX_SECONDS, 'carousel videos');
+    }
+  }
+}
+
+function waitForInstagramContainer(accessToken: string, containerId: string, deadline?: number): Promise<void> {
+  return waitForContainer(
+    `${GRAPH_URL}/${containerId}?fields=status_code,status&access_token=${accessToken}`,
+    { status: 'status_code', error: 'status' },
+    'Instagram',
+    deadline
+  );
+}
+
+async function createContainer(
+  accessToken: string,
+  accountId: string,
+  content: PostContent,
+  reel: ReelOptions | undefined,
+  deadline?: number
+): Promise<string> {
+  const media = content.media ?? [];
+
+  if (media.length === 1) {
+    const [item] = media;
+    const body = item.type === 'video'
+      ? {
+          media_type: 'REELS',
+          video_url: item.url,
+          ...(reel?.coverUrl && { cover_url: reel.coverUrl }),
+          share_to_feed: reel?.shareToFeed ?? true,
+        }
+      : { image_url: item.url };
+
+    const container = await graphPost(
+      `${GRAPH_URL}/${accountId}/media`,
+      { ...body, caption: content.text, access_token: accessToken },
+      'Failed to create Instagram media'
+    );
+    return container.id;
+  }
+
+  const children: string[] = [];
+  for (const item of media) {
+    const child = await graphPost(
+      `${GRAPH_URL}/${accountId}/media`,
+      {
+        ...(item.type === 'video'
+          ? { media_type: 'VIDEO', video_url: item.url }
+          : { image_url: item.url }),
+        is_carousel_item: true,
+        access_token: accessToken,
+      },
+      'Failed to create Instagram carousel item'
+    );
+    await waitForInstagramContainer(accessToken, child.id, deadline);
+    children.push(child.id);
+  }
+
+  const carousel = await graphPost(
+    `${GRAPH_URL}/${accountId}/media`,
+    {
+      media_type: 'CAROUSEL',
+      children: children.join(','),
+      caption: content.text,
+      access_token: accessToken,
+    },
+    'Failed to create Instagram carousel'
+  );
+  return carousel.id;
+}
+
+async function postToInstagram(
+  accessToken: string,
+  content: PostContent,
+  accountId: string,
+  deadline?: number
+): Promise<PostResult> {
+  try {
+    validateInstagramMedia(content.media ?? []);
+
+    const creationId = await createContainer(
+      accessToken,
+      accountId,
+      content,
+      content.options?.reel,
+      deadline
+    );
+    await waitForInstagramContainer(accessToken, creationId, deadline);
+
+    const { id: mediaId } = await graphPost(
+      `${GRAPH_URL}/${accountId}/media_publish`,
+      { creation_id: creationId, access_token: accessToken },
+      'Failed to publish Instagram post'
+    );
+
+    const permalinkResponse = await fetch(
+      `${GRAPH_URL}/${mediaId}?fields=permalink&access_token=${accessToken}`
+    );
+    const permalinkData = permalinkResponse.ok ? await permalinkResponse.json() : null;
+
+    return {
+      success: true,
+      postId: mediaId,
+      postUrl: permalinkData?.permalink,
+    };
+  } catch (error) {
+    return failureResult(error, 'Failed to publish Instagram post');
+  }
+}
+
+export const instagramAdapter: PlatformAdapter = {
+  id: 'instagram',
+  name: 'Instagram',
+  icon: '📷',
+  color: 'bg-pink-600',
+  oauth: {
+    authorizationUrl: 'https://www.instagram.com/oauth/authorize',
+    tokenUrl: 'https://api.instagram.com/oauth/access_token',
+    scope: 'instagram_business_basic,instagram_business_content_publish,instagram_business_manage_comments',
+    longLivedToken: {
+      url: 'https://graph.instagram.com/access_token',
+      grantType: 'ig_exchange_token',
+      tokenParam: 'access_token',
+      refresh: {
+        url: 'https://graph.instagram.com/refresh_access_token',
+        grantType: 'ig_refresh_token',
+      },
+    },
+  },
+  limits: {
+    maxLength: 2200,
+    maxMedia: 10,
+    requiresMedia: true,
+    mediaTypes: ['image', 'video'],
+    maxBytes: { image: 8 * MB, video: 300 * MB },
+    videoSeconds: { min: REEL_MIN_SECONDS, max: REEL_MAX_SECONDS },
+    imageAspectRatio: { min: FEED_MIN_RATIO, max: FEED_MAX_RATIO },
+    videoAspectRatio: { min: REEL_MIN_RATIO, max: REEL_MAX_RATIO },
+    maxHashtags: 30,
+    maxMentions: 20,
+  },
+
+  // user_id is the professional account id that media is published under;
+  // id is only scoped to the app.
+  async fetchProfile(accessToken) {
+    const response = await fetch('https://graph.instagram.com/me?fields=user_id,username', {
+      headers: { Authorization: `Bearer ${accessToken}` },
+    });
+
+    if (!response.ok) {
+      throw apiError(response, 'Failed to fetch account info from instagram');
+    }
+
+    const data = await response.json();
+    return {
+      id: String(data.user_id ?? data.id),
+      name: data.username,
+      handle: `@${data.username}`,
+    };
+  },
+
+  profileUrl: (handle) => `https://instagram.com/${handle.replace(/^@/, '')}`,
+
+  // The Graph API cannot look up other accounts, so the username is checked
+  // against the account the token belongs to.
+  async verifyUsername(username, accessToken) {
+    const profile = await instagramAdapter.fetchProfile(accessToken);
+    if (profile.handle.replace(/^@/, '').toLowerCase() !== username.replace(/^@/, '').toLowerCase()) {
+      throw new PlatformApiError('Username does not match the authenticated Instagram account', 'invalid');
+    }
+    return profile;
+  },
+
+  publish: (accessToken, content, account, resume) =>
+    postToInstagram(accessToken, content, account.externalId, resume?.deadline),
+
+  async postComment(accessToken, postId, text) {
+    const { id } = await graphPost(
+      `${GRAPH_URL}/${postId}/comments`,
+      { message: text, access_token: accessToken },
+      'Failed to comment on Instagram post'
+    );
+    return id;
+  },
+
+  findPost: (accessToken, content, _account, since) =>
+    findRecentGraphPost(
+      `${GRAPH_URL}/me/media`,
+      accessToken,
+      { text: 'caption', time: 'timestamp', permalink: 'permalink' },
+      content.text,
+      since,
+      'Instagram'
+    ),
+
+  async fetchMetrics(accessToken, postId) {
+    const response = await fetch(
+      `${GRAPH_URL}/${postId}?fields=like_count,comments_count&access_token=${accessToken}`
+    );
+
+    if (!response.ok) {
+      throw apiError(response, 'Failed to fetch Instagram post metrics');
+    }
+
+    const data = await response.json();
+    return {
+      likes: data.like_count ?? 0,
+      comments: data.comments_count ?? 0,
+      shares: 0,
+      views: 0,
+    };
+  },
+
+  // Instagram Login has no token revocation endpoint.
+  revoke: async () => ({
+    revoked: false,
+    manual: 'Remove the app under Settings > Apps and websites in Instagram.',
+  }),
+};
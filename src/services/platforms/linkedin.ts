@@ -0,0 +1,424 @@
+import { apiError, failureResult } from './errors.ts';
+import { revokeWithForm, waitToPoll } from './http.ts';
+import { downloadMedia, fileNameFromUrl, MB } from './media.ts';
+import type { PlatformAdapter, PostContent, PostMedia, PostResult } from './types.ts';
+
+const LINKEDIN_VERSION = '202405';
+
+async function readLinkedInError(response: Response, fallback: string): Promise<never> {
+  const error = await response.json().catch(() => ({}));
+  throw apiError(response, error.message || fallback);
+}
+
+// LinkedIn takes images, one video or one PDF per post, never a mix.
+function validateLinkedInMedia(media: PostMedia[]): void {
+  const videos = media.filter((item) => item.type === 'video').length;
+  const documents = media.filter((item) => item.type === 'document').length;
+
+  if ((videos > 0 || documents > 0) && media.length > 1) {
+    throw new Error('LinkedIn posts can contain several images, or a single video, or a single document');
+  }
+  if (media.length > 9) {
+    throw new Error('LinkedIn allows at most 9 images per post');
+  }
+}
+
+async function waitForAsset(accessToken: string, asset: string, deadline?: number): Promise<void> {
+  const assetId = asset.split(':').pop();
+
+  for (let attempt = 0; attempt < 60; attempt++) {
+    const response = await fetch(`https://api.linkedin.com/v2/assets/${assetId}`, {
+      headers: { Authorization: `Bearer ${accessToken}` },
+    });
+
+    if (!response.ok) {
+      await readLinkedInError(response, 'Failed to check LinkedIn upload status');
+    }
+
+    const data = await response.json();
+    const status = data.recipes?.[0]?.status;
+    if (status === 'AVAILABLE') {
+      return;
+    }
+    if (status === 'CLIENT_ERROR' || status === 'SERVER_ERROR') {
+      throw new Error('LinkedIn failed to process the uploaded video');
+    }
+
+    await waitToPoll(3000, deadline);
+  }
+
+  throw new Error('Timed out waiting for LinkedIn to process the uploaded video');
+}
+
+// Asset registration flow: register the upload, PUT the bytes, and for
+// video wait until the asset is AVAILABLE before it can be shared.
+async function uploadAsset(
+  accessToken: string,
+  owner: string,
+  media: PostMedia,
+  deadline?: number
+): Promise<string> {
+  const recipe = media.type === 'video'
+    ? 'urn:li:digitalmediaRecipe:feedshare-video'
+    : 'urn:li:digitalmediaRecipe:feedshare-image';
+
+  const registerResponse = await fetch('https://api.linkedin.com/v2/assets?action=registerUpload', {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      'Content-Type': 'application/json',
+      'X-Restli-Protocol-Version': '2.0.0',
+    },
+    body: JSON.stringify({
+      registerUploadRequest: {
+        recipes: [recipe],
+        owner,
+        serviceRelationships: [
+          {
+            relationshipType: 'OWNER',
+            identifier: 'urn:li:userGeneratedContent',
+          },
+        ],
+      },
+    }),
+  });
+
+  if (!registerResponse.ok) {
+    await readLinkedInError(registerResponse, 'Failed to register LinkedIn upload');
+  }
+
+  const registered = (await registerResponse.json()).value;
+  const uploadUrl =
+    registered.uploadMechanism['com.linkedin.digitalmedia.uploading.MediaUploadHttpRequest'].uploadUrl;
+
+  const uploadResponse = await fetch(uploadUrl, {
+    method: 'PUT',
+    headers: { Authorization: `Bearer ${accessToken}` },
+    body: await downloadMedia(media.url),
+  });
+
+  if (!uploadResponse.ok) {
+    throw apiError(uploadResponse, 'Failed to upload media to LinkedIn');
+  }
+
+  if (media.type === 'video') {
+    await waitForAsset(accessToken, registered.asset, deadline);
+  }
+
+  return registered.asset;
+}
+
+// Commentary on the REST posts API uses LinkedIn's "little text" format,
+// where these characters are reserved.
+function escapeLittleText(text: string): string {
+  return text.replace(/[\\|{}@[\]()<>#*_~]/g, (char) => `\\${char}`);
+}
+
+// Document (PDF carousel) posts only exist on the versioned REST API.
+async function postDocumentToLinkedIn(
+  accessToken: string,
+  content: PostContent,
+  owner: string,
+  document: PostMedia
+): Promise<PostResult> {
+  const headers = {
+    Authorization: `Bearer ${accessToken}`,
+    'Content-Type': 'application/json',
+    'LinkedIn-Version': LINKEDIN_VERSION,
+    'X-Restli-Protocol-Version': '2.0.0',
+  };
+
+  const initResponse = await fetch('https://api.linkedin.com/rest/documents?action=initializeUpload', {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({ initializeUploadRequest: { owner } }),
+  });
+
+  if (!initResponse.ok) {
+    await readLinkedInError(initResponse, 'Failed to start LinkedIn document upload');
+  }
+
+  const { uploadUrl, document: documentUrn } = (await initResponse.json()).value;
+
+  const uploadResponse = await fetch(uploadUrl, {
+    method: 'PUT',
+    headers: { Authorization: `Bearer ${accessToken}` },
+    body: await downloadMedia(document.url),
+  });
+
+  if (!uploadResponse.ok) {
+    throw apiError(uploadResponse, 'Failed to upload document to LinkedIn');
+  }
+
+  const response = await fetch('https://api.linkedin.com/rest/posts', {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({
+      author: owner,
+      commentary: escapeLittleText(content.text),
+      visibility: 'PUBLIC',
+      distribution: {
+        feedDistribution: 'MAIN_FEED',
+        targetEntities: [],
+        thirdPartyDistributionChannels: [],
+      },
+      content: {
+        media: {
+          id: documentUrn,
+          title: document.altText || fileNameFromUrl(document.url),
+        },
+      },
+      lifecycleState: 'PUBLISHED',
+      isReshareDisabledByAuthor: false,
+    }),
+  });
+
+  if (!response.ok) {
+    await readLinkedInError(response, 'Failed to post to LinkedIn');
+  }
+
+  const postId = response.headers.get('x-restli-id') ?? '';
+  return {
+    success: true,
+    postId,
+    postUrl: `https://www.linkedin.com/feed/update/${postId}`,
+  };
+}
+
+function buildShareMedia(content: PostContent, assets: string[]) {
+  if (assets.length > 0) {
+    const category = content.media?.[0].type === 'video' ? 'VIDEO' : 'IMAGE';
+    return {
+      shareMediaCategory: category,
+      media: assets.map((asset, index) => ({
+        status: 'READY',
+        media: asset,
+        ...(content.media?.[index].altText && {
+          description: { text: content.media[index].altText },
+        }),
+      })),
+    };
+  }
+
+  if (content.link) {
+    return {
+      shareMediaCategory: 'ARTICLE',
+      media: [
+        {
+          status: 'READY',
+          originalUrl: content.link.url,
+          ...(content.link.title && { title: { text: content.link.title } }),
+          ...(content.link.description && { description: { text: content.link.description } }),
+        },
+      ],
+    };
+  }
+
+  return { shareMediaCategory: 'NONE' };
+}
+
+async function postToLinkedIn(
+  accessToken: string,
+  content: PostContent,
+  userId: string,
+  deadline?: number
+): Promise<PostResult> {
+  try {
+    const owner = `urn:li:person:${userId}`;
+    const media = content.media ?? [];
+    validateLinkedInMedia(media);
+
+    if (media[0]?.type === 'document') {
+      return await postDocumentToLinkedIn(accessToken, content, owner, media[0]);
+    }
+
+    const assets: string[] = [];
+    for (const item of media) {
+      assets.push(await uploadAsset(accessToken, owner, item, deadline));
+    }
+
+    const response = await fetch('https://api.linkedin.com/v2/ugcPosts', {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        'Content-Type': 'application/json',
+        'X-Restli-Protocol-Version': '2.0.0',
+      },
+      body: JSON.stringify({
+        author: owner,
+        lifecycleState: 'PUBLISHED',
+        specificContent: {
+          'com.linkedin.ugc.ShareContent': {
+            shareCommentary: {
+              text: content.text,
+            },
+            ...buildShareMedia(content, assets),
+          },
+        },
+        visibility: {
+          'com.linkedin.ugc.MemberNetworkVisibility': 'PUBLIC',
+        },
+      }),
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw apiError(response, error.message || 'Failed to post to LinkedIn');
+    }
+
+    const data = await response.json();
+    return {
+      success: true,
+      postId: data.id,
+      postUrl: `https://www.linkedin.com/feed/update/${data.id}`,
+    };
+  } catch (error) {
+    return failureResult(error, 'Failed to post to LinkedIn');
+  }
+}
+
+export const linkedinAdapter: PlatformAdapter = {
+  id: 'linkedin',
+  name: 'LinkedIn',
+  icon: '💼',
+  color: 'bg-blue-700',
+  oauth: {
+    authorizationUrl: 'https://www.linkedin.com/oauth/v2/authorization',
+    tokenUrl: 'https://www.linkedin.com/oauth/v2/accessToken',
+    scope: 'r_liteprofile r_emailaddress w_member_social',
+  },
+  limits: {
+    maxLength: 3000,
+    maxMedia: 9,
+    requiresMedia: false,
+    mediaTypes: ['image', 'gif', 'video', 'document'],
+    aloneTypes: ['video', 'document'],
+    maxBytes: { image: 8 * MB, video: 200 * MB, document: 100 * MB },
+    videoSeconds: { min: 3, max: 30 * 60 },
+  },
+
+  async fetchProfile(accessToken) {
+    const response = await fetch('https://api.linkedin.com/v2/me', {
+      headers: { Authorization: `Bearer ${accessToken}` },
+    });
+
+    if (!response.ok) {
+      throw apiError(response, 'Failed to fetch account info from linkedin');
+    }
+
+    const data = await response.json();
+    return {
+      id: data.id,
+      name: `${data.localizedFirstName} ${data.localizedLastName}`,
+      handle: data.id,
+    };
+  },
+
+  profileUrl: (handle) => `https://www.linkedin.com/in/${handle}`,
+
+  // LinkedIn has no member lookup by vanity name; the check confirms the
+  // token's member exists and keeps the name as entered.
+  async verifyUsername(username, accessToken) {
+    const profile = await linkedinAdapter.fetchProfile(accessToken);
+    return { ...profile, handle: username };
+  },
+
+  publish: (accessToken, content, account, resume) =>
+    postToLinkedIn(accessToken, content, account.externalId, resume?.deadline),
+
+  async deletePost(accessToken, postId) {
+    const response = await fetch(
+      `https://api.linkedin.com/v2/ugcPosts/${encodeURIComponent(postId)}`,
+      {
+        method: 'DELETE',
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+          'X-Restli-Protocol-Version': '2.0.0',
+        },
+      }
+    );
+
+    if (response.status === 404) {
+      return;
+    }
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw apiError(response, error.message || 'Failed to delete LinkedIn post');
+    }
+  },
+
+  async postComment(accessToken, postId, text, account) {
+    const response = await fetch(
+      `https://api.linkedin.com/v2/socialActions/${encodeURIComponent(postId)}/comments`,
+      {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+          'Content-Type': 'application/json',
+          'X-Restli-Protocol-Version': '2.0.0',
+        },
+        body: JSON.stringify({
+          actor: `urn:li:person:${account.externalId}`,
+          object: postId,
+          message: { text },
+        }),
+      }
+    );
+
+    if (!response.ok) {
+      await readLinkedInError(response, 'Failed to comment on LinkedIn post');
+    }
+
+    const data = await response.json();
+    return data.$URN ?? data.id;
+  },
+
+  // Posts made through ugcPosts are edited through the REST posts API, which
+  // accepts both share and ugcPost URNs but only changes the commentary.
+  async editPost(accessToken, postId, text) {
+    const response = await fetch(
+      `https://api.linkedin.com/rest/posts/${encodeURIComponent(postId)}`,
+      {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+          'Content-Type': 'application/json',
+          'LinkedIn-Version': LINKEDIN_VERSION,
+          'X-Restli-Protocol-Version': '2.0.0',
+          'X-RestLi-Method': 'PARTIAL_UPDATE',
+        },
+        body: JSON.stringify({ patch: { $set: { commentary: escapeLittleText(text) } } }),
+      }
+    );
+
+    if (!response.ok) {
+      await readLinkedInError(response, 'Failed to edit LinkedIn post');
+    }
+  },
+
+  async fetchMetrics(accessToken, postId) {
+    const response = await fetch(
+      `https://api.linkedin.com/v2/socialActions/${encodeURIComponent(postId)}`,
+      { headers: { Authorization: `Bearer ${accessToken}` } }
+    );
+
+    if (!response.ok) {
+      throw apiError(response, 'Failed to fetch LinkedIn post metrics');
+    }
+
+    const data = await response.json();
+    return {
+      likes: data.likesSummary?.totalLikes ?? 0,
+      comments: data.commentsSummary?.aggregatedTotalComments ?? 0,
+      shares: 0,
+      views: 0,
+    };
+  },
+
+  revoke: ({ accessToken, client }) =>
+    revokeWithForm('https://www.linkedin.com/oauth/v2/revoke', {
+      token: accessToken,
+      client_id: client.clientId,
+      client_secret: client.clientSecret,
+    }),
+};
@@ -0,0 +1,311 @@
+import { apiError, failureResult, PlatformApiError, usernameNotFound } from './errors.ts';
+import { revokeWithForm, waitToPoll } from './http.ts';
+import { downloadMedia, fileNameFromUrl, MB } from './media.ts';
+import type {
+  AccountContext,
+  PlatformAdapter,
+  PostContent,
+  PostMedia,
+  PostResult,
+  PublishResume,
+} from './types.ts';
+
+export const MASTODON_VISIBILITIES = [
+  { value: 'public', label: 'Public' },
+  { value: 'unlisted', label: 'Unlisted' },
+  { value: 'private', label: 'Followers only' },
+  { value: 'direct', label: 'Mentioned people only' },
+];
+
+// Accepts "mastodon.social", "@user@mastodon.social" or a full URL and returns
+// the instance origin, e.g. "https://mastodon.social".
+export function normalizeInstanceUrl(input: string): string {
+  const trimmed = input.trim().replace(/^@?[^@/]+@(?=[^@/]+$)/, '');
+  const url = new URL(/^https?:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`);
+  return `https://${url.host.toLowerCase()}`;
+}
+
+function requireInstance(account: Pick<AccountContext, 'instanceUrl'>): string {
+  if (!account.instanceUrl) {
+    throw new Error('Mastodon account has no instance URL. Please reconnect the account.');
+  }
+  return account.instanceUrl;
+}
+
+async function readMastodonError(response: Response, fallback: string): Promise<never> {
+  const error = await response.json().catch(() => ({}));
+  throw apiError(response, error.error || fallback);
+}
+
+function validateMastodonMedia(media: PostMedia[]): void {
+  if (media.some((item) => item.type === 'document')) {
+    throw new Error('Mastodon does not support document attachments');
+  }
+  if (media.length > 4) {
+    throw new Error('Mastodon posts can have at most 4 attachments');
+  }
+  if (media.some((item) => item.type === 'video') && media.length > 1) {
+    throw new Error('Mastodon video posts can contain only one video');
+  }
+}
+
+// Each instance sets its own post length, so check it rather than assume 500.
+async function checkStatusLength(instanceUrl: string, text: string): Promise<void> {
+  const response = await fetch(`${instanceUrl}/api/v2/instance`);
+  if (!response.ok) return;
+
+  const data = await response.json();
+  const maxCharacters = data.configuration?.statuses?.max_characters;
+  if (maxCharacters && [...text].length > maxCharacters) {
+    throw new Error(`This Mastodon instance allows at most ${maxCharacters} characters per post`);
+  }
+}
+
+// Large files are processed asynchronously: the upload answers 202 and the
+// attachment reports 206 until its url is ready.
+async function uploadMedia(
+  accessToken: string,
+  instanceUrl: string,
+  media: PostMedia,
+  deadline?: number
+): Promise<string> {
+  const blob = await downloadMedia(media.url);
+  const form = new FormData();
+  form.append('file', blob, fileNameFromUrl(media.url));
+  if (media.altText) {
+    form.append('description', media.altText);
+  }
+
+  const response = await fetch(`${instanceUrl}/api/v2/media`, {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${accessToken}` },
+    body: form,
+  });
+
+  if (!response.ok) {
+    await readMastodonError(response, 'Failed to upload media to Mastodon');
+  }
+
+  const attachment = await response.json();
+  if (response.status !== 202) {
+    return attachment.id;
+  }
+
+  for (let attempt = 0; attempt < 60; attempt++) {
+    await waitToPoll(2000, deadline);
+
+    const statusResponse = await fetch(`${instanceUrl}/api/v1/media/${attachment.id}`, {
+      headers: { Authorization: `Bearer ${accessToken}` },
+    });
+
+    if (statusResponse.status === 200) {
+      return attachment.id;
+    }
+    if (statusResponse.status !== 206) {
+      await readMastodonError(statusResponse, 'Mastodon could not process the media');
+    }
+  }
+
+  throw new Error('Timed out waiting for Mastodon to process the media');
+}
+
+// Mastodon remembers an Idempotency-Key for an hour and answers a repeated
+// request with the status it already created.
+async function postToMastodon(
+  accessToken: string,
+  content: PostContent,
+  account: AccountContext,
+  resume?: PublishResume
+): Promise<PostResult> {
+  try {
+    const instanceUrl = requireInstance(account);
+    const media = content.media ?? [];
+
+    validateMastodonMedia(media);
+    await checkStatusLength(instanceUrl, content.text);
+
+    const mediaIds: string[] = [];
+    for (const item of media) {
+      mediaIds.push(await uploadMedia(accessToken, instanceUrl, item, resume?.deadline));
+    }
+
+    const contentWarning = content.options?.contentWarning?.trim();
+    const response = await fetch(`${instanceUrl}/api/v1/statuses`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        'Content-Type': 'application/json',
+        ...(resume?.idempotencyKey && { 'Idempotency-Key': resume.idempotencyKey }),
+      },
+      body: JSON.stringify({
+        status: content.text,
+        ...(mediaIds.length > 0 && { media_ids: mediaIds }),
+        ...(contentWarning && { spoiler_text: contentWarning, sensitive: true }),
+        visibility: content.options?.privacy?.level ?? 'public',
+      }),
+    });
+
+    if (!response.ok) {
+      await readMastodonError(response, 'Failed to post to Mastodon');
+    }
+
+    const data = await response.json();
+    return {
+      success: true,
+      postId: data.id,
+      postUrl: data.url,
+    };
+  } catch (error) {
+    return failureResult(error, 'Failed to post to Mastodon');
+  }
+}
+
+export const mastodonAdapter: PlatformAdapter = {
+  id: 'mastodon',
+  name: 'Mastodon',
+  icon: '🐘',
+  color: 'bg-indigo-600',
+  oauth: {
+    authorizationUrl: '/oauth/authorize',
+    tokenUrl: '/oauth/token',
+    scope: 'read:accounts write:statuses write:media',
+    instanceBased: true,
+  },
+  limits: {
+    maxLength: 500,
+    maxMedia: 4,
+    requiresMedia: false,
+    lengthVaries: true,
+    mediaTypes: ['image', 'gif', 'video'],
+    aloneTypes: ['video'],
+    maxBytes: { image: 16 * MB, gif: 16 * MB, video: 99 * MB },
+  },
+
+  async fetchProfile(accessToken, instanceUrl) {
+    const instance = requireInstance({ instanceUrl });
+    const response = await fetch(`${instance}/api/v1/accounts/verify_credentials`, {
+      headers: { Authorization: `Bearer ${accessToken}` },
+    });
+
+    if (!response.ok) {
+      throw apiError(response, 'Failed to fetch account info from mastodon');
+    }
+
+    const data = await response.json();
+    const host = new URL(instance).host;
+    return {
+      // Account ids are only unique within one server.
+      id: `${data.id}@${host}`,
+      name: data.display_name || data.username,
+      handle: `@${data.username}@${host}`,
+    };
+  },
+
+  // Handles are @user@server.
+  profileUrl(handle) {
+    const [user, host] = handle.replace(/^@/, '').split('@');
+    return host ? `https://${host}/@${user}` : undefined;
+  },
+
+  // Accounts are public, so the lookup needs no token; the server comes
+  // from the handle.
+  async verifyUsername(username) {
+    const [user, host] = username.replace(/^@/, '').split('@');
+    if (!user || !host) {
+      throw new PlatformApiError('Enter the full handle, e.g. @you@mastodon.social', 'invalid');
+    }
+
+    const response = await fetch(
+      `https://${host}/api/v1/accounts/lookup?acct=${encodeURIComponent(user)}`
+    );
+
+    if (response.status === 404) {
+      throw usernameNotFound('Mastodon');
+    }
+    if (!response.ok) {
+      throw apiError(response, 'Failed to look up Mastodon account');
+    }
+
+    const data = await response.json();
+    return {
+      id: `${data.id}@${host}`,
+      name: data.display_name || data.username,
+      handle: `@${data.username}@${host}`,
+    };
+  },
+
+  publish: (accessToken, content, account, resume) =>
+    postToMastodon(accessToken, content, account, resume),
+
+  async deletePost(accessToken, postId, account) {
+    const response = await fetch(`${requireInstance(account)}/api/v1/statuses/${postId}`, {
+      method: 'DELETE',
+      headers: { Authorization: `Bearer ${accessToken}` },
+    });
+
+    if (response.status === 404) {
+      return;
+    }
+    if (!response.ok) {
+      await readMastodonError(response, 'Failed to delete Mastodon post');
+    }
+  },
+
+  // An edit replaces the whole status, so the current attachments and
+  // content warning are sent back with the new text to keep them.
+  async editPost(accessToken, postId, text, account) {
+    const statusUrl = `${requireInstance(account)}/api/v1/statuses/${postId}`;
+    const currentResponse = await fetch(statusUrl, {
+      headers: { Authorization: `Bearer ${accessToken}` },
+    });
+
+    if (!currentResponse.ok) {
+      await readMastodonError(currentResponse, 'Failed to load Mastodon post');
+    }
+
+    const current = await currentResponse.json();
+    const response = await fetch(statusUrl, {
+      method: 'PUT',
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        status: text,
+        spoiler_text: current.spoiler_text,
+        sensitive: current.sensitive,
+        media_ids: current.media_attachments.map((attachment: { id: string }) => attachment.id),
+      }),
+    });
+
+    if (!response.ok) {
+      await readMastodonError(response, 'Failed to edit Mastodon post');
+    }
+  },
+
+  async fetchMetrics(accessToken, postId, account) {
+    const response = await fetch(`${requireInstance(account)}/api/v1/statuses/${postId}`, {
+      headers: { Authorization: `Bearer ${accessToken}` },
+    });
+
+    if (!response.ok) {
+      throw apiError(response, 'Failed to fetch Mastodon post metrics');
+    }
+
+    const data = await response.json();
+    return {
+      likes: data.favourites_count ?? 0,
+      comments: data.replies_count ?? 0,
+      shares: data.reblogs_count ?? 0,
+      views: 0,
+    };
+  },
+
+  // The client is the app registered with the account's instance.
+  revoke: ({ accessToken, client, account }) =>
+    revokeWithForm(`${account.instanceUrl}/oauth/revoke`, {
+      client_id: client.clientId,
+      client_secret: client.clientSecret,
+      token: accessToken,
+    }),
+};
@@ -0,0 +1,34 @@
+import type { MediaMetadata, MediaType, PostMedia } from './types.ts';
+
+export const MB = 1024 * 1024;
+
+export function mediaTypeFromUrl(url: string): MediaType {
+  const path = url.split('?')[0];
+  if (/\.gif$/i.test(path)) return 'gif';
+  if (/\.(mp4|webm|ogg|mov)$/i.test(path)) return 'video';
+  if (/\.pdf$/i.test(path)) return 'document';
+  return 'image';
+}
+
+// content_posts stores public URLs from the post-media bucket; the media kind
+// is derived from the file extension and dimensions come from the metadata
+// the composer recorded at upload time, keyed by URL.
+export function mediaFromUrls(
+  urls: string[],
+  metadata: Record<string, MediaMetadata> = {}
+): PostMedia[] {
+  return urls.map((url) => ({ ...metadata[url], url, type: mediaTypeFromUrl(url) }));
+}
+
+export function fileNameFromUrl(url: string): string {
+  const path = url.split('?')[0];
+  return decodeURIComponent(path.substring(path.lastIndexOf('/') + 1));
+}
+
+export async function downloadMedia(url: string): Promise<Blob> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to download media from ${url}`);
+  }
+  return await response.blob();
+}
@@ -0,0 +1,126 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  type FirstCommentRecord,
+  type HeldPublication,
+  publishOnce,
+  type PublicationRecord,
+  type PublicationStore,
+  STALE_PENDING_MS,
+} from './publications.ts';
+
+const target = {
+  userId: 'user-1',
+  contentPostId: 'post-1',
+  accountId: 'account-1',
+  platform: 'mastodon',
+};
+
+// Holds the key with `held` until an update settles it, like the partial
+// unique index on pending and published rows.
+function fakeStore(held: HeldPublication | null = null) {
+  let current = held;
+  const store = {
+    insert: vi.fn(async () => (current ? null : 'new-row')),
+    findByKey: vi.fn(async () => current),
+    update: vi.fn(async (id: string, changes: PublicationRecord | FirstCommentRecord) => {
+      if (id === current?.id && 'status' in changes && changes.status !== 'published') {
+        current = null;
+      }
+    }),
+  } satisfies PublicationStore;
+  return store;
+}
+
+const heldRow = (status: HeldPublication['status'], ageMs: number): HeldPublication => ({
+  id: 'held-row',
+  status,
+  external_post_id: status === 'published' ? '111' : null,
+  permalink: status === 'published' ? 'https://example.social/@me/111' : null,
+  thread_post_ids: [],
+  attempt: 1,
+  attempted_at: new Date(Date.now() - ageMs).toISOString(),
+});
+
+describe('publishOnce', () => {
+  it('claims the key, publishes and stores the result', async () => {
+    const store = fakeStore();
+    const publish = vi.fn(async () => ({ success: true, postId: '222' }));
+    const postComment = vi.fn(async () => 'comment-1');
+
+    const result = await publishOnce(store, target, 1, publish, undefined, postComment);
+
+    expect(result).toEqual({ success: true, postId: '222' });
+    expect(publish).toHaveBeenCalledWith('post-1:account-1');
+    expect(store.insert).toHaveBeenCalledWith(expect.objectContaining({
+      status: 'pending',
+      idempotency_key: 'post-1:account-1',
+    }));
+    expect(store.update).toHaveBeenCalledWith('new-row', expect.objectContaining({
+      status: 'published',
+      external_post_id: '222',
+    }));
+    expect(postComment).toHaveBeenCalledWith('222');
+    expect(store.update).toHaveBeenCalledWith('new-row', {
+      first_comment_id: 'comment-1',
+      first_comment_error: null,
+    });
+  });
+
+  it('returns an earlier success without publishing again', async () => {
+    const store = fakeStore(heldRow('published', 60_000));
+    const publish = vi.fn();
+
+    const result = await publishOnce(store, target, 2, publish);
+
+    expect(result).toEqual({ success: true, postId: '111', postUrl: 'https://example.social/@me/111' });
+    expect(publish).not.toHaveBeenCalled();
+  });
+
+  it('refuses while another attempt holds the key', async () => {
+    const publish = vi.fn();
+
+    const result = await publishOnce(fakeStore(heldRow('pending', 60_000)), target, 2, publish);
+
+    expect(result).toMatchObject({ success: false, errorCategory: 'duplicate' });
+    expect(publish).not.toHaveBeenCalled();
+  });
+
+  it('settles a stale attempt with the post it finds on the network', async () => {
+    const held = heldRow('pending', STALE_PENDING_MS + 1_000);
+    const store = fakeStore(held);
+    const publish = vi.fn();
+    const findPost = vi.fn(async () => ({ success: true, postId: '333' }));
+
+    const result = await publishOnce(store, target, 2, publish, findPost);
+
+    expect(result).toEqual({ success: true, postId: '333' });
+    expect(findPost).toHaveBeenCalledWith(held.attempted_at);
+    expect(store.update).toHaveBeenCalledWith('held-row', expect.objectContaining({ status: 'published' }));
+    expect(publish).not.toHaveBeenCalled();
+  });
+
+  it('publishes again when a stale attempt left nothing on the network', async () => {
+    const store = fakeStore(heldRow('pending', STALE_PENDING_MS + 1_000));
+    const publish = vi.fn(async () => ({ success: true, postId: '444' }));
+
+    const result = await publishOnce(store, target, 2, publish, async () => null);
+
+    expect(result).toEqual({ success: true, postId: '444' });
+    expect(store.update).toHaveBeenCalledWith('held-row', expect.objectContaining({
+      status: 'failed',
+      error_category: 'transient',
+    }));
+    expect(publish).toHaveBeenCalledTimes(1);
+  });
+
+  it('asks the user to check when a stale attempt cannot be looked up', async () => {
+    const store = fakeStore(heldRow('pending', STALE_PENDING_MS + 1_000));
+    const publish = vi.fn();
+
+    const result = await publishOnce(store, target, 2, publish);
+
+    expect(result).toMatchObject({ success: false, errorCategory: 'duplicate' });
+    expect(result.error).toMatch(/Check the account for the post/);
+    expect(publish).not.toHaveBeenCalled();
+  });
+});
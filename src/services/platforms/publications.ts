@@ -0,0 +1,221 @@
+import { failureResult } from './errors.ts';
+import type { PostResult, PublishResume } from './types.ts';
+
+// Postgres error code for a unique constraint violation, which is how a
+// second claim on the same idempotency key fails.
+export const UNIQUE_VIOLATION = '23505';
+
+// A pending row older than this belongs to a publish that stopped before it
+// could store its result; edge functions are shut down long before.
+export const STALE_PENDING_MS = 10 * 60 * 1000;
+
+export interface PublicationTarget {
+  userId: string;
+  contentPostId: string | null;
+  accountId: string;
+  platform: string;
+}
+
+export interface PreviousPublication {
+  status: 'pending' | 'published' | 'partial' | 'failed';
+  thread_post_ids: string[] | null;
+}
+
+// A partial thread is continued from its last posted id; anything else
+// starts from scratch.
+export function resumeFrom(previous?: PreviousPublication | null): PublishResume | undefined {
+  if (previous?.status === 'partial' && previous.thread_post_ids?.length) {
+    return { threadPostIds: previous.thread_post_ids };
+  }
+  return undefined;
+}
+
+// Shared by every attempt to publish one content post to one account.
+// Ad-hoc publishes without a content post are not deduplicated.
+export function publicationKey(target: PublicationTarget): string | null {
+  return target.contentPostId ? `${target.contentPostId}:${target.accountId}` : null;
+}
+
+// Row written to post_publications for every publish attempt, from the
+// browser and from the scheduled worker alike; retries of one publish are
+// numbered by `attempt`.
+export function buildPublicationRecord(
+  target: PublicationTarget,
+  result: PostResult,
+  attempt = 1
+) {
+  return {
+    user_id: target.userId,
+    content_post_id: target.contentPostId,
+    social_account_id: target.accountId,
+    platform: target.platform,
+    external_post_id: result.postId ?? null,
+    permalink: result.postUrl ?? null,
+    thread_post_ids: result.threadPostIds ?? [],
+    status: result.success
+      ? 'published'
+      : result.threadPostIds?.length
+      ? 'partial'
+      : 'failed',
+    error: result.success ? null : result.error ?? 'Unknown error',
+    error_category: result.success ? null : result.errorCategory ?? null,
+    attempt,
+    attempted_at: new Date().toISOString(),
+  };
+}
+
+export type PublicationRecord = ReturnType<typeof buildPublicationRecord>;
+
+// Every attempt is logged; only the newest one per account says where that
+// account stands.
+export function latestAttempts<
+  T extends { id: string; attempted_at: string; social_account_id: string | null }
+>(publications: T[]): T[] {
+  const sorted = [...publications].sort((a, b) => b.attempted_at.localeCompare(a.attempted_at));
+  const seen = new Set<string>();
+  return sorted.filter((publication) => {
+    const key = publication.social_account_id ?? publication.id;
+    if (seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+}
+
+// Stored apart from the publish result: a failed comment leaves the post
+// published.
+export interface FirstCommentRecord {
+  first_comment_id: string | null;
+  first_comment_error: string | null;
+}
+
+// The pending or published row holding an idempotency key.
+export interface HeldPublication {
+  id: string;
+  status: 'pending' | 'published';
+  external_post_id: string | null;
+  permalink: string | null;
+  thread_post_ids: string[] | null;
+  attempt: number;
+  attempted_at: string;
+}
+
+// Database access for publishOnce, implemented over the browser client and
+// the worker's admin client.
+export interface PublicationStore {
+  // Inserts the row and returns its id, or null when a pending or published
+  // row already holds its idempotency key.
+  insert(record: PublicationRecord & { idempotency_key: string | null }): Promise<string | null>;
+  findByKey(idempotencyKey: string): Promise<HeldPublication | null>;
+  update(id: string, changes: PublicationRecord | FirstCommentRecord): Promise<void>;
+}
+
+async function firstCommentRecord(
+  postComment: (postId: string) => Promise<string>,
+  postId: string
+): Promise<FirstCommentRecord> {
+  try {
+    return { first_comment_id: await postComment(postId), first_comment_error: null };
+  } catch (error) {
+    return {
+      first_comment_id: null,
+      first_comment_error: error instanceof Error ? error.message : 'Failed to post the first comment',
+    };
+  }
+}
+
+// Makes one publish attempt under the target's idempotency key. The pending
+// row is stored before the network is called, so a double click, a retried
+// request or an overlapping run finds it instead of posting again: an
+// earlier success is returned as is, an attempt still running is refused,
+// and one that stopped without storing its result is looked up on the
+// network with `findPost`. Networks that cannot look posts up leave that
+// check to the user. After a fresh success `postComment` adds the first
+// comment, if the post has one.
+export async function publishOnce(
+  store: PublicationStore,
+  target: PublicationTarget,
+  attempt: number,
+  publish: (idempotencyKey?: string) => Promise<PostResult>,
+  findPost?: (since: string) => Promise<PostResult | null>,
+  postComment?: (postId: string) => Promise<string>
+): Promise<PostResult> {
+  const key = publicationKey(target);
+
+  // A second pass only happens after the held row was settled or finished
+  // between the insert and the lookup.
+  for (let pass = 0; pass < 2; pass++) {
+    const id = await store.insert({
+      ...buildPublicationRecord(target, { success: false }, attempt),
+      status: 'pending',
+      error: null,
+      idempotency_key: key,
+    });
+
+    if (id) {
+      const result = await publish(key ?? undefined);
+      await store.update(id, buildPublicationRecord(target, result, attempt));
+      if (result.success && result.postId && postComment) {
+        await store.update(id, await firstCommentRecord(postComment, result.postId));
+      }
+      return result;
+    }
+
+    const held = key ? await store.findByKey(key) : null;
+    if (!held) {
+      continue;
+    }
+
+    if (held.status === 'published') {
+      return {
+        success: true,
+        postId: held.external_post_id ?? undefined,
+        postUrl: held.permalink ?? undefined,
+        threadPostIds: held.thread_post_ids?.length ? held.thread_post_ids : undefined,
+      };
+    }
+
+    if (Date.now() - Date.parse(held.attempted_at) < STALE_PENDING_MS) {
+      return {
+        success: false,
+        error: 'This post is already being published to this account',
+        errorCategory: 'duplicate',
+      };
+    }
+
+    if (!findPost) {
+      const interrupted: PostResult = {
+        success: false,
+        error: `An earlier attempt on ${target.platform} stopped before its result was saved. Check the account for the post before retrying.`,
+        errorCategory: 'duplicate',
+      };
+      await store.update(held.id, buildPublicationRecord(target, interrupted, held.attempt));
+      return interrupted;
+    }
+
+    let found: PostResult | null;
+    try {
+      found = await findPost(held.attempted_at);
+    } catch (error) {
+      return failureResult(error, `Failed to check ${target.platform} for an earlier post`);
+    }
+
+    if (found) {
+      await store.update(held.id, buildPublicationRecord(target, found, held.attempt));
+      return found;
+    }
+
+    await store.update(held.id, buildPublicationRecord(target, {
+      success: false,
+      error: 'Stopped before anything was posted',
+      errorCategory: 'transient',
+    }, held.attempt));
+  }
+
+  return {
+    success: false,
+    error: 'Another attempt to publish this post finished at the same time. Please try again.',
+    errorCategory: 'transient',
+  };
+}
@@ -0,0 +1,64 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { MAX_RETRY_WAIT_MS, publishWithRetry, retryDelay } from './retry.ts';
+import type { PostResult } from './types.ts';
+
+describe('retryDelay', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('uses the wait the network asked for', () => {
+    expect(retryDelay(1, 45_000)).toBe(45_000);
+  });
+
+  it('backs off exponentially with jitter, up to the cap', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(1);
+
+    expect(retryDelay(1)).toBe(2_000);
+    expect(retryDelay(2)).toBe(4_000);
+    expect(retryDelay(10)).toBe(MAX_RETRY_WAIT_MS);
+  });
+
+  it('never waits less than half the backoff', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+
+    expect(retryDelay(3)).toBe(4_000);
+  });
+});
+
+describe('publishWithRetry', () => {
+  it('retries transient failures and resumes a thread where it stopped', async () => {
+    const publish = vi.fn()
+      .mockResolvedValueOnce({
+        success: false,
+        errorCategory: 'transient',
+        threadPostIds: ['1'],
+        retryAfterMs: 0,
+      } satisfies PostResult)
+      .mockResolvedValueOnce({ success: true, postId: '1' } satisfies PostResult);
+
+    const result = await publishWithRetry(publish, undefined);
+
+    expect(result.success).toBe(true);
+    expect(publish).toHaveBeenNthCalledWith(1, undefined, 1);
+    expect(publish).toHaveBeenNthCalledWith(2, { threadPostIds: ['1'] }, 2);
+  });
+
+  it('returns failures that retrying cannot fix after one attempt', async () => {
+    const publish = vi.fn().mockResolvedValue({ success: false, errorCategory: 'invalid' });
+
+    await publishWithRetry(publish, undefined);
+
+    expect(publish).toHaveBeenCalledTimes(1);
+  });
+
+  it('leaves long rate limits and waits past the deadline to the caller', async () => {
+    const limited = vi.fn().mockResolvedValue({ success: false, errorCategory: 'rate_limited', retryAfterMs: 60_000 });
+    await publishWithRetry(limited, undefined);
+    expect(limited).toHaveBeenCalledTimes(1);
+
+    const transient = vi.fn().mockResolvedValue({ success: false, errorCategory: 'transient', retryAfterMs: 1_000 });
+    await publishWithRetry(transient, undefined, Date.now() + 500);
+    expect(transient).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,48 @@
+import { isRetryable } from './errors.ts';
+import { hasTimeFor, sleep } from './http.ts';
+import type { PostResult, PublishResume } from './types.ts';
+
+export const MAX_ATTEMPTS = 3;
+const BASE_DELAY_MS = 2_000;
+// Longest wait slept through in-process. A network asking for more than
+// this (X resets its windows every 15 minutes) is left to the caller, which
+// can reschedule the post instead of holding a request open.
+export const MAX_RETRY_WAIT_MS = 30_000;
+
+// Capped exponential backoff with jitter, unless the network said how long
+// to wait.
+export function retryDelay(attempt: number, retryAfterMs?: number): number {
+  if (retryAfterMs !== undefined) {
+    return retryAfterMs;
+  }
+  const capped = Math.min(MAX_RETRY_WAIT_MS, BASE_DELAY_MS * 2 ** (attempt - 1));
+  return capped / 2 + Math.random() * (capped / 2);
+}
+
+// Publishes with retries for rate limits and transient failures; anything
+// else is returned after the first attempt. `publish` is told which attempt
+// it is making so the attempt can be recorded, and a thread that failed part
+// way resumes after its last posted tweet.
+export async function publishWithRetry(
+  publish: (resume: PublishResume | undefined, attempt: number) => Promise<PostResult>,
+  resume: PublishResume | undefined,
+  deadline?: number
+): Promise<PostResult> {
+  for (let attempt = 1; ; attempt++) {
+    const result = await publish(resume, attempt);
+
+    if (result.success || !isRetryable(result.errorCategory) || attempt >= MAX_ATTEMPTS) {
+      return result;
+    }
+
+    const delay = retryDelay(attempt, result.retryAfterMs);
+    if (delay > MAX_RETRY_WAIT_MS || !hasTimeFor(delay, deadline)) {
+      return result;
+    }
+
+    if (result.threadPostIds?.length) {
+      resume = { ...resume, threadPostIds: result.threadPostIds };
+    }
+    await sleep(delay);
+  }
+}
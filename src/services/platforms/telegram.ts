@@ -0,0 +1,251 @@
+import { apiError, failureResult } from './errors.ts';
+import { MB } from './media.ts';
+import type { AccountContext, PlatformAdapter, PostContent, PostMedia, PostResult } from './types.ts';
+
+const API_URL = 'https://api.telegram.org';
+const MAX_CAPTION_LENGTH = 1024;
+
+// Telegram fetches media from our public URLs itself, so nothing is uploaded.
+const sendMethods: Record<PostMedia['type'], { method: string; field: string; groupType: string }> = {
+  image: { method: 'sendPhoto', field: 'photo', groupType: 'photo' },
+  gif: { method: 'sendAnimation', field: 'animation', groupType: 'photo' },
+  video: { method: 'sendVideo', field: 'video', groupType: 'video' },
+  document: { method: 'sendDocument', field: 'document', groupType: 'document' },
+};
+
+async function callBotApi<T>(
+  botToken: string,
+  method: string,
+  body: Record<string, unknown>,
+  fallback: string
+): Promise<T> {
+  const response = await fetch(`${API_URL}/bot${botToken}/${method}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+
+  // Flood control answers 429 with the wait in the body, not a header.
+  const data = await response.json().catch(() => ({}));
+  if (!data.ok) {
+    const retryAfter = data.parameters?.retry_after;
+    throw apiError(
+      response,
+      data.description ? `Telegram: ${data.description}` : fallback,
+      retryAfter ? { retryAfterMs: retryAfter * 1000 } : {}
+    );
+  }
+
+  return data.result;
+}
+
+function validateTelegramMedia(content: PostContent): void {
+  const media = content.media ?? [];
+  if (media.length === 0) return;
+
+  if (content.text.length > MAX_CAPTION_LENGTH) {
+    throw new Error(`Telegram captions can be at most ${MAX_CAPTION_LENGTH} characters`);
+  }
+  if (media.length > 10) {
+    throw new Error('Telegram albums can contain at most 10 items');
+  }
+  if (media.length > 1) {
+    if (media.some((item) => item.type === 'gif')) {
+      throw new Error('Telegram GIFs cannot be sent as part of an album');
+    }
+    const documents = media.filter((item) => item.type === 'document').length;
+    if (documents > 0 && documents < media.length) {
+      throw new Error('Telegram albums cannot mix documents with photos or videos');
+    }
+  }
+}
+
+// Public channels (@name) and private supergroups (-100…) have message links;
+// other chats do not.
+function messageUrl(handle: string, messageId: number): string | undefined {
+  if (handle.startsWith('@')) {
+    return `https://t.me/${handle.slice(1)}/${messageId}`;
+  }
+  if (handle.startsWith('-100')) {
+    return `https://t.me/c/${handle.slice(4)}/${messageId}`;
+  }
+  return undefined;
+}
+
+// Returns the id of every message sent; an album is one message per item.
+async function sendToTelegram(
+  botToken: string,
+  content: PostContent,
+  chatId: string
+): Promise<number[]> {
+  const media = content.media ?? [];
+
+  if (media.length === 0) {
+    const message = await callBotApi<{ message_id: number }>(
+      botToken,
+      'sendMessage',
+      {
+        chat_id: chatId,
+        text: content.text,
+        ...(content.link && { link_preview_options: { url: content.link.url } }),
+      },
+      'Failed to send Telegram message'
+    );
+    return [message.message_id];
+  }
+
+  if (media.length === 1) {
+    const { method, field } = sendMethods[media[0].type];
+    const message = await callBotApi<{ message_id: number }>(
+      botToken,
+      method,
+      { chat_id: chatId, [field]: media[0].url, caption: content.text },
+      'Failed to send Telegram media'
+    );
+    return [message.message_id];
+  }
+
+  const messages = await callBotApi<{ message_id: number }[]>(
+    botToken,
+    'sendMediaGroup',
+    {
+      chat_id: chatId,
+      media: media.map((item, index) => ({
+        type: sendMethods[item.type].groupType,
+        media: item.url,
+        ...(index === 0 && { caption: content.text }),
+      })),
+    },
+    'Failed to send Telegram album'
+  );
+  return messages.map((message) => message.message_id);
+}
+
+// Messages go to the chat's numeric id, which survives the channel being
+// renamed; the handle only builds the link.
+async function postToTelegram(
+  botToken: string,
+  content: PostContent,
+  account: AccountContext
+): Promise<PostResult> {
+  try {
+    validateTelegramMedia(content);
+
+    const [messageId, ...rest] = await sendToTelegram(botToken, content, account.externalId);
+    return {
+      success: true,
+      postId: String(messageId),
+      postUrl: messageUrl(account.handle, messageId),
+      threadPostIds: rest.length > 0 ? [messageId, ...rest].map(String) : undefined,
+    };
+  } catch (error) {
+    return failureResult(error, 'Failed to send Telegram message');
+  }
+}
+
+export const telegramAdapter: PlatformAdapter = {
+  id: 'telegram',
+  name: 'Telegram',
+  icon: '✈️',
+  color: 'bg-sky-600',
+  limits: {
+    maxLength: 4096,
+    maxMedia: 10,
+    requiresMedia: false,
+    captionLength: MAX_CAPTION_LENGTH,
+    mediaTypes: ['image', 'gif', 'video', 'document'],
+    aloneTypes: ['gif'],
+    maxBytes: { image: 10 * MB, gif: 20 * MB, video: 20 * MB, document: 20 * MB },
+  },
+
+  destination: {
+    fields: [
+      { name: 'botToken', label: 'Bot token', placeholder: '123456:ABC-DEF…', secret: true },
+      { name: 'chatId', label: 'Channel or chat ID', placeholder: '@mychannel or -1001234567890' },
+    ],
+
+    // The bot must exist, see the chat and, for channels, be an admin that
+    // can post.
+    async connect(values) {
+      const botToken = values.botToken?.trim();
+      const chatId = values.chatId?.trim();
+      if (!botToken || !chatId) {
+        throw new Error('Enter both the bot token and the chat ID');
+      }
+
+      const bot = await callBotApi<{ id: number }>(
+        botToken,
+        'getMe',
+        {},
+        'Telegram rejected the bot token'
+      );
+      const chat = await callBotApi<{ id: number; type: string; title?: string; username?: string }>(
+        botToken,
+        'getChat',
+        { chat_id: chatId },
+        'The bot cannot see this chat. Add it to the channel or group first.'
+      );
+      const member = await callBotApi<{ status: string; can_post_messages?: boolean }>(
+        botToken,
+        'getChatMember',
+        { chat_id: chatId, user_id: bot.id },
+        'Failed to check the bot\'s permissions in this chat'
+      );
+
+      if (member.status === 'left' || member.status === 'kicked') {
+        throw new Error('The bot is not a member of this chat');
+      }
+      if (chat.type === 'channel' && member.status !== 'creator' && !member.can_post_messages) {
+        throw new Error('Make the bot a channel admin with permission to post messages');
+      }
+
+      return {
+        id: String(chat.id),
+        name: chat.title || chat.username || chatId,
+        handle: chat.username ? `@${chat.username}` : String(chat.id),
+        accessToken: botToken,
+      };
+    },
+  },
+
+  async fetchProfile(botToken) {
+    const bot = await callBotApi<{ id: number; first_name: string; username: string }>(
+      botToken,
+      'getMe',
+      {},
+      'Failed to fetch account info from telegram'
+    );
+    return {
+      id: String(bot.id),
+      name: bot.first_name,
+      handle: `@${bot.username}`,
+    };
+  },
+
+  // Only public channels have a link.
+  profileUrl: (handle) => handle.startsWith('@') ? `https://t.me/${handle.slice(1)}` : undefined,
+
+  publish: (botToken, content, account) =>
+    postToTelegram(botToken, content, account),
+
+  async deletePost(botToken, postId, account) {
+    try {
+      await callBotApi(
+        botToken,
+        'deleteMessage',
+        { chat_id: account.externalId, message_id: Number(postId) },
+        'Failed to delete Telegram message'
+      );
+    } catch (error) {
+      if (!(error instanceof Error && /message to delete not found/i.test(error.message))) {
+        throw error;
+      }
+    }
+  },
+
+  // Bot tokens belong to the user's own bot; disconnecting just forgets it.
+  revoke: async () => ({
+    revoked: false,
+    manual: 'Remove the bot from the channel, or revoke its token with @BotFather.',
+  }),
+};
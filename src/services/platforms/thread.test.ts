@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { splitIntoThread } from './thread.ts';
+import { tweetLength } from './twitterText.ts';
+
+describe('splitIntoThread', () => {
+  it('keeps text within the limit as a single post without numbering', () => {
+    expect(splitIntoThread('Short and sweet.', { maxLength: 280, numbering: true }))
+      .toEqual(['Short and sweet.']);
+  });
+
+  it('splits on lines containing only ---', () => {
+    expect(splitIntoThread('First post\n---\nSecond post\n  ---  \nThird post', { maxLength: 280 }))
+      .toEqual(['First post', 'Second post', 'Third post']);
+  });
+
+  it('packs whole sentences into posts that fit', () => {
+    const text = 'One two three. Four five six. Seven eight nine.';
+
+    expect(splitIntoThread(text, { maxLength: 30 }))
+      .toEqual(['One two three. Four five six.', 'Seven eight nine.']);
+  });
+
+  it('falls back to words, and cuts words longer than a post', () => {
+    const segments = splitIntoThread('tiny ' + 'x'.repeat(25), { maxLength: 10 });
+
+    expect(segments).toEqual(['tiny', 'xxxxxxxxxx', 'xxxxxxxxxx', 'xxxxx']);
+  });
+
+  it('numbers the posts and leaves room for the suffix', () => {
+    const text = Array.from({ length: 12 }, (_, i) => `Sentence number ${i + 1}.`).join(' ');
+    const segments = splitIntoThread(text, { maxLength: 50, numbering: true });
+
+    expect(segments.length).toBeGreaterThan(1);
+    segments.forEach((segment, index) => {
+      expect(segment.endsWith(` ${index + 1}/${segments.length}`)).toBe(true);
+      expect([...segment].length).toBeLessThanOrEqual(50);
+    });
+  });
+
+  it('measures with the given function', () => {
+    const url = `https://example.com/${'a'.repeat(100)}`;
+    const segments = splitIntoThread(`Read this. ${url}`, { maxLength: 40, measure: tweetLength });
+
+    expect(segments).toEqual([`Read this. ${url}`]);
+  });
+});
@@ -0,0 +1,101 @@
+export interface ThreadSplitOptions {
+  maxLength: number;
+  numbering?: boolean;
+  measure?: (text: string) => number;
+}
+
+// A line containing only "---" marks an explicit break between posts.
+const SEPARATOR = /\n\s*---\s*\n/;
+
+const countChars = (text: string) => [...text].length;
+
+function hardSplit(text: string, limit: number, measure: (text: string) => number): string[] {
+  const pieces: string[] = [];
+  let current = '';
+  for (const char of text) {
+    if (current && measure(current + char) > limit) {
+      pieces.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  if (current) pieces.push(current);
+  return pieces;
+}
+
+// Greedily packs sentences into segments; sentences that are too long on
+// their own fall back to word boundaries, and single oversized words are cut.
+function packSentences(
+  text: string,
+  limit: number,
+  measure: (text: string) => number
+): string[] {
+  const sentences = text.match(/[^.!?\n]+(?:[.!?]+|\n+|$)\s*/g) ?? [text];
+  const segments: string[] = [];
+  let current = '';
+
+  const pushUnit = (unit: string, joiner: string) => {
+    const candidate = current ? current + joiner + unit : unit;
+    if (measure(candidate.trim()) <= limit) {
+      current = candidate;
+      return true;
+    }
+    return false;
+  };
+
+  for (const rawSentence of sentences) {
+    const sentence = rawSentence.trim();
+    if (!sentence) continue;
+    if (pushUnit(sentence, ' ')) continue;
+
+    if (current) segments.push(current.trim());
+    current = '';
+    if (pushUnit(sentence, ' ')) continue;
+
+    for (const word of sentence.split(/\s+/)) {
+      if (pushUnit(word, ' ')) continue;
+      if (current) segments.push(current.trim());
+      current = '';
+      if (pushUnit(word, ' ')) continue;
+
+      const pieces = hardSplit(word, limit, measure);
+      segments.push(...pieces.slice(0, -1));
+      current = pieces[pieces.length - 1];
+    }
+  }
+
+  if (current.trim()) segments.push(current.trim());
+  return segments;
+}
+
+export function splitIntoThread(text: string, options: ThreadSplitOptions): string[] {
+  const measure = options.measure ?? countChars;
+  const blocks = text.split(SEPARATOR).map((block) => block.trim()).filter(Boolean);
+
+  const split = (reserve: number) =>
+    blocks.flatMap((block) =>
+      measure(block) <= options.maxLength - reserve
+        ? [block]
+        : packSentences(block, options.maxLength - reserve, measure)
+    );
+
+  if (!options.numbering) {
+    return split(0);
+  }
+
+  // The " n/total" suffix depends on the total, so re-split until the
+  // reserved width matches the number of segments produced.
+  let segments = split(0);
+  for (let i = 0; i < 3; i++) {
+    const suffixWidth = ` ${segments.length}/${segments.length}`.length;
+    const next = split(suffixWidth);
+    const done = next.length === segments.length;
+    segments = next;
+    if (done) break;
+  }
+
+  if (segments.length === 1) {
+    return segments;
+  }
+  return segments.map((segment, index) => `${segment} ${index + 1}/${segments.length}`);
+}
@@ -0,0 +1,203 @@
+import { apiError, failureResult, PlatformApiError } from './errors.ts';
+import { findRecentGraphPost, graphPost, waitForContainer } from './graph.ts';
+import { MB } from './media.ts';
+import type { PlatformAdapter, PostContent, PostMedia, PostResult } from './types.ts';
+
+const GRAPH_URL = 'https://graph.threads.net/v1.0';
+
+const MAX_CAROUSEL_ITEMS = 20;
+
+export const THREADS_REPLY_CONTROLS = [
+  { value: 'everyone', label: 'Anyone' },
+  { value: 'accounts_you_follow', label: 'Profiles you follow' },
+  { value: 'mentioned_only', label: 'Mentioned only' },
+];
+
+function validateThreadsMedia(media: PostMedia[]): void {
+  if (media.some((item) => item.type === 'gif' || item.type === 'document')) {
+    throw new Error('Threads only accepts images and videos');
+  }
+  if (media.length > MAX_CAROUSEL_ITEMS) {
+    throw new Error(`Threads carousels can contain at most ${MAX_CAROUSEL_ITEMS} items`);
+  }
+}
+
+function waitForThreadsContainer(accessToken: string, containerId: string, deadline?: number): Promise<void> {
+  return waitForContainer(
+    `${GRAPH_URL}/${containerId}?fields=status,error_message&access_token=${accessToken}`,
+    { status: 'status', error: 'error_message' },
+    'Threads',
+    deadline
+  );
+}
+
+function mediaFields(item: PostMedia) {
+  return item.type === 'video'
+    ? { media_type: 'VIDEO', video_url: item.url }
+    : { media_type: 'IMAGE', image_url: item.url };
+}
+
+// Same container flow as Instagram: one container for text or a single
+// image/video, or item containers gathered under a CAROUSEL container.
+async function createContainer(accessToken: string, content: PostContent, deadline?: number): Promise<string> {
+  const media = content.media ?? [];
+  const replyControl = content.options?.replyControl;
+  const postFields = {
+    text: content.text,
+    ...(replyControl && { reply_control: replyControl }),
+    access_token: accessToken,
+  };
+
+  if (media.length <= 1) {
+    const container = await graphPost(
+      `${GRAPH_URL}/me/threads`,
+      { ...(media.length === 1 ? mediaFields(media[0]) : { media_type: 'TEXT' }), ...postFields },
+      'Failed to create Threads post'
+    );
+    return container.id;
+  }
+
+  const children: string[] = [];
+  for (const item of media) {
+    const child = await graphPost(
+      `${GRAPH_URL}/me/threads`,
+      { ...mediaFields(item), is_carousel_item: true, access_token: accessToken },
+      'Failed to create Threads carousel item'
+    );
+    await waitForThreadsContainer(accessToken, child.id, deadline);
+    children.push(child.id);
+  }
+
+  const carousel = await graphPost(
+    `${GRAPH_URL}/me/threads`,
+    { media_type: 'CAROUSEL', children: children.join(','), ...postFields },
+    'Failed to create Threads carousel'
+  );
+  return carousel.id;
+}
+
+async function postToThreads(accessToken: string, content: PostContent, deadline?: number): Promise<PostResult> {
+  try {
+    validateThreadsMedia(content.media ?? []);
+
+    const creationId = await createContainer(accessToken, content, deadline);
+    await waitForThreadsContainer(accessToken, creationId, deadline);
+
+    const { id: mediaId } = await graphPost(
+      `${GRAPH_URL}/me/threads_publish`,
+      { creation_id: creationId, access_token: accessToken },
+      'Failed to publish Threads post'
+    );
+
+    const permalinkResponse = await fetch(
+      `${GRAPH_URL}/${mediaId}?fields=permalink&access_token=${accessToken}`
+    );
+    const permalinkData = permalinkResponse.ok ? await permalinkResponse.json() : null;
+
+    return {
+      success: true,
+      postId: mediaId,
+      postUrl: permalinkData?.permalink,
+    };
+  } catch (error) {
+    return failureResult(error, 'Failed to publish Threads post');
+  }
+}
+
+export const threadsAdapter: PlatformAdapter = {
+  id: 'threads',
+  name: 'Threads',
+  icon: '🧵',
+  color: 'bg-gray-900',
+  oauth: {
+    authorizationUrl: 'https://threads.net/oauth/authorize',
+    tokenUrl: 'https://graph.threads.net/oauth/access_token',
+    scope: 'threads_basic,threads_content_publish,threads_manage_insights',
+    longLivedToken: {
+      url: 'https://graph.threads.net/access_token',
+      grantType: 'th_exchange_token',
+      tokenParam: 'access_token',
+      refresh: {
+        url: 'https://graph.threads.net/refresh_access_token',
+        grantType: 'th_refresh_token',
+      },
+    },
+  },
+  limits: {
+    maxLength: 500,
+    maxMedia: MAX_CAROUSEL_ITEMS,
+    requiresMedia: false,
+    mediaTypes: ['image', 'video'],
+    maxBytes: { image: 8 * MB, video: 1024 * MB },
+    videoSeconds: { min: 0, max: 5 * 60 },
+    imageAspectRatio: { min: 0.1, max: 10 },
+  },
+
+  async fetchProfile(accessToken) {
+    const response = await fetch(
+      `${GRAPH_URL}/me?fields=id,username,name&access_token=${accessToken}`
+    );
+
+    if (!response.ok) {
+      throw apiError(response, 'Failed to fetch account info from threads');
+    }
+
+    const data = await response.json();
+    return {
+      id: data.id,
+      name: data.name || data.username,
+      handle: data.username,
+    };
+  },
+
+  profileUrl: (handle) => `https://www.threads.net/@${handle.replace(/^@/, '')}`,
+
+  // The Graph API cannot look up other accounts, so the username is checked
+  // against the account the token belongs to.
+  async verifyUsername(username, accessToken) {
+    const profile = await threadsAdapter.fetchProfile(accessToken);
+    if (profile.handle.replace(/^@/, '').toLowerCase() !== username.replace(/^@/, '').toLowerCase()) {
+      throw new PlatformApiError('Username does not match the authenticated Threads account', 'invalid');
+    }
+    return profile;
+  },
+
+  publish: (accessToken, content, _account, resume) => postToThreads(accessToken, content, resume?.deadline),
+
+  findPost: (accessToken, content, _account, since) =>
+    findRecentGraphPost(
+      `${GRAPH_URL}/me/threads`,
+      accessToken,
+      { text: 'text', time: 'timestamp', permalink: 'permalink' },
+      content.text,
+      since,
+      'Threads'
+    ),
+
+  async fetchMetrics(accessToken, postId) {
+    const response = await fetch(
+      `${GRAPH_URL}/${postId}/insights?metric=likes,replies,reposts,quotes,views&access_token=${accessToken}`
+    );
+
+    if (!response.ok) {
+      throw apiError(response, 'Failed to fetch Threads post metrics');
+    }
+
+    const data = await response.json();
+    const metric = (name: string): number =>
+      data.data?.find((entry: { name: string }) => entry.name === name)?.values?.[0]?.value ?? 0;
+
+    return {
+      likes: metric('likes'),
+      comments: metric('replies'),
+      shares: metric('reposts') + metric('quotes'),
+      views: metric('views'),
+    };
+  },
+
+  // Threads has no token revocation endpoint.
+  revoke: async () => ({
+    revoked: false,
+    manual: 'Remove the app under Settings > Account > Website permissions in Threads.',
+  }),
+};
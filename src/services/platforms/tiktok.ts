@@ -0,0 +1,276 @@
+import { apiError, failureResult, PlatformApiError } from './errors.ts';
+import { revokeWithForm, waitToPoll } from './http.ts';
+import { downloadMedia, MB } from './media.ts';
+import type { PlatformAdapter, PostContent, PostMedia, PostResult, PrivacyOptions } from './types.ts';
+
+const API_URL = 'https://open.tiktokapis.com/v2';
+
+// TikTok accepts chunks between 5 MB and 64 MB; anything up to 64 MB goes up
+// in one request and larger files are split with the remainder folded into
+// the last chunk.
+const SINGLE_UPLOAD_MAX_BYTES = 64 * MB;
+const CHUNK_SIZE = 10 * MB;
+
+export const TIKTOK_PRIVACY_LEVELS = [
+  { value: 'PUBLIC_TO_EVERYONE', label: 'Everyone' },
+  { value: 'MUTUAL_FOLLOW_FRIENDS', label: 'Friends' },
+  { value: 'FOLLOWER_OF_CREATOR', label: 'Followers' },
+  { value: 'SELF_ONLY', label: 'Only me' },
+];
+
+interface CreatorInfo {
+  privacy_level_options: string[];
+  comment_disabled: boolean;
+  duet_disabled: boolean;
+  stitch_disabled: boolean;
+  max_video_post_duration_sec: number;
+}
+
+function tiktokError(
+  response: Response,
+  error: { code?: string; message?: string } | undefined,
+  fallback: string
+) {
+  return apiError(
+    response,
+    error?.message || fallback,
+    error?.code === 'rate_limit_exceeded' ? { category: 'rate_limited' } : {}
+  );
+}
+
+async function tiktokPost<T>(
+  accessToken: string,
+  path: string,
+  body: Record<string, unknown> | null,
+  fallback: string
+): Promise<T> {
+  const response = await fetch(`${API_URL}/${path}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json; charset=UTF-8',
+      Authorization: `Bearer ${accessToken}`,
+    },
+    ...(body && { body: JSON.stringify(body) }),
+  });
+
+  // Gateway errors and rate limits can come back as HTML or an empty body,
+  // so the status is classified before the body is trusted to be JSON.
+  if (!response.ok) {
+    const { error } = await response.json().catch(() => ({}));
+    throw tiktokError(response, error, fallback);
+  }
+
+  const data = await response.json();
+  if (data.error?.code && data.error.code !== 'ok') {
+    throw tiktokError(response, data.error, fallback);
+  }
+
+  return data.data;
+}
+
+function validateTikTokMedia(media: PostMedia[]): PostMedia {
+  if (media.length !== 1 || media[0].type !== 'video') {
+    throw new Error('TikTok posts require exactly one video');
+  }
+  return media[0];
+}
+
+// The creator's current settings decide which privacy levels are allowed and
+// whether interactions can be enabled at all.
+function buildPostInfo(
+  content: PostContent,
+  privacy: PrivacyOptions | undefined,
+  creator: CreatorInfo
+) {
+  if (!privacy?.level) {
+    throw new Error('Choose who can view this TikTok post');
+  }
+  if (!creator.privacy_level_options.includes(privacy.level)) {
+    throw new Error(`This TikTok account cannot post with privacy level ${privacy.level}`);
+  }
+
+  return {
+    title: content.text,
+    privacy_level: privacy.level,
+    disable_comment: creator.comment_disabled || !!privacy.disableComment,
+    disable_duet: creator.duet_disabled || !!privacy.disableDuet,
+    disable_stitch: creator.stitch_disabled || !!privacy.disableStitch,
+  };
+}
+
+async function uploadVideo(uploadUrl: string, video: Blob, chunkCount: number): Promise<void> {
+  const chunkSize = chunkCount === 1 ? video.size : CHUNK_SIZE;
+
+  for (let index = 0; index < chunkCount; index++) {
+    const start = index * chunkSize;
+    const end = index === chunkCount - 1 ? video.size : start + chunkSize;
+
+    const response = await fetch(uploadUrl, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': video.type || 'video/mp4',
+        'Content-Range': `bytes ${start}-${end - 1}/${video.size}`,
+      },
+      body: video.slice(start, end),
+    });
+
+    if (!response.ok) {
+      throw apiError(response, `Failed to upload TikTok video chunk ${index + 1} of ${chunkCount}`);
+    }
+  }
+}
+
+// Publishing continues on TikTok's side after the upload; the post only has
+// a public id once the status reaches PUBLISH_COMPLETE.
+async function waitForPublish(
+  accessToken: string,
+  publishId: string,
+  deadline?: number
+): Promise<string | undefined> {
+  for (let attempt = 0; attempt < 60; attempt++) {
+    const data = await tiktokPost<{
+      status: string;
+      fail_reason?: string;
+      publicaly_available_post_id?: (string | number)[];
+    }>(
+      accessToken,
+      'post/publish/status/fetch/',
+      { publish_id: publishId },
+      'Failed to check TikTok publish status'
+    );
+
+    if (data.status === 'PUBLISH_COMPLETE') {
+      const postId = data.publicaly_available_post_id?.[0];
+      return postId === undefined ? undefined : String(postId);
+    }
+    if (data.status === 'FAILED') {
+      throw new Error(`TikTok could not publish the video: ${data.fail_reason || 'unknown reason'}`);
+    }
+
+    await waitToPoll(5000, deadline);
+  }
+
+  throw new Error('Timed out waiting for TikTok to publish the video');
+}
+
+async function postToTikTok(
+  accessToken: string,
+  content: PostContent,
+  username: string,
+  deadline?: number
+): Promise<PostResult> {
+  try {
+    const media = validateTikTokMedia(content.media ?? []);
+
+    const creator = await tiktokPost<CreatorInfo>(
+      accessToken,
+      'post/publish/creator_info/query/',
+      null,
+      'Failed to fetch TikTok creator info'
+    );
+
+    if (
+      media.durationSeconds !== undefined &&
+      media.durationSeconds > creator.max_video_post_duration_sec
+    ) {
+      throw new Error(
+        `This TikTok account can post videos up to ${creator.max_video_post_duration_sec} seconds long`
+      );
+    }
+
+    const postInfo = buildPostInfo(content, content.options?.privacy, creator);
+
+    const video = await downloadMedia(media.url);
+    const chunkCount = video.size <= SINGLE_UPLOAD_MAX_BYTES
+      ? 1
+      : Math.floor(video.size / CHUNK_SIZE);
+
+    const init = await tiktokPost<{ publish_id: string; upload_url: string }>(
+      accessToken,
+      'post/publish/video/init/',
+      {
+        post_info: postInfo,
+        source_info: {
+          source: 'FILE_UPLOAD',
+          video_size: video.size,
+          chunk_size: chunkCount === 1 ? video.size : CHUNK_SIZE,
+          total_chunk_count: chunkCount,
+        },
+      },
+      'Failed to start TikTok upload'
+    );
+
+    await uploadVideo(init.upload_url, video, chunkCount);
+
+    const postId = await waitForPublish(accessToken, init.publish_id, deadline);
+
+    return {
+      success: true,
+      postId: postId ?? init.publish_id,
+      postUrl: postId ? `https://www.tiktok.com/@${username}/video/${postId}` : undefined,
+    };
+  } catch (error) {
+    return failureResult(error, 'Failed to post to TikTok');
+  }
+}
+
+export const tiktokAdapter: PlatformAdapter = {
+  id: 'tiktok',
+  name: 'TikTok',
+  icon: '🎵',
+  color: 'bg-black',
+  oauth: {
+    authorizationUrl: 'https://www.tiktok.com/v2/auth/authorize/',
+    tokenUrl: `${API_URL}/oauth/token/`,
+    scope: 'user.info.basic,user.info.profile,video.upload,video.publish',
+    clientIdParam: 'client_key',
+  },
+  limits: {
+    maxLength: 2200,
+    maxMedia: 1,
+    requiresMedia: true,
+    mediaTypes: ['video'],
+    maxBytes: { video: 4 * 1024 * MB },
+    videoSeconds: { min: 3, max: 10 * 60 },
+  },
+
+  async fetchProfile(accessToken) {
+    const response = await fetch(`${API_URL}/user/info/?fields=open_id,display_name,username`, {
+      headers: { Authorization: `Bearer ${accessToken}` },
+    });
+
+    if (!response.ok) {
+      throw apiError(response, 'Failed to fetch account info from tiktok');
+    }
+
+    const data = await response.json();
+    const user = data.data.user;
+    return {
+      id: user.open_id,
+      name: user.display_name,
+      handle: user.username || user.open_id,
+    };
+  },
+
+  profileUrl: (handle) => `https://www.tiktok.com/@${handle.replace(/^@/, '')}`,
+
+  // TikTok cannot look up other accounts, so the username is checked
+  // against the account the token belongs to.
+  async verifyUsername(username, accessToken) {
+    const profile = await tiktokAdapter.fetchProfile(accessToken);
+    if (profile.handle.replace(/^@/, '').toLowerCase() !== username.replace(/^@/, '').toLowerCase()) {
+      throw new PlatformApiError('Username does not match the authenticated TikTok account', 'invalid');
+    }
+    return profile;
+  },
+
+  publish: (accessToken, content, account, resume) =>
+    postToTikTok(accessToken, content, account.handle, resume?.deadline),
+
+  revoke: ({ accessToken, client }) =>
+    revokeWithForm(`${API_URL}/oauth/revoke/`, {
+      client_key: client.clientId,
+      client_secret: client.clientSecret,
+      token: accessToken,
+    }),
+};
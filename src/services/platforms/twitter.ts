@@ -0,0 +1,372 @@
+import { apiError, failureResult, usernameNotFound } from './errors.ts';
+import { clientAuthentication, revokeWithForm, waitToPoll } from './http.ts';
+import { downloadMedia } from './media.ts';
+import { splitIntoThread } from './thread.ts';
+import { tweetLength } from './twitterText.ts';
+import type {
+  MediaType,
+  PlatformAdapter,
+  PostContent,
+  PostMedia,
+  PostResult,
+  PublishResume,
+} from './types.ts';
+
+const MEDIA_UPLOAD_URL = 'https://api.x.com/2/media/upload';
+const CHUNK_SIZE = 4 * 1024 * 1024;
+
+const maxBytes: Record<Exclude<MediaType, 'document'>, number> = {
+  image: 5 * 1024 * 1024,
+  gif: 15 * 1024 * 1024,
+  video: 512 * 1024 * 1024,
+};
+
+// X accepts either up to four images, or exactly one GIF, or exactly one
+// video per tweet. Checked before anything is uploaded.
+function validateTwitterMedia(media: PostMedia[]): void {
+  if (media.some((item) => item.type === 'document')) {
+    throw new Error('X does not support document attachments');
+  }
+
+  const images = media.filter((item) => item.type === 'image').length;
+  const animated = media.length - images;
+
+  if (images > 4) {
+    throw new Error('X allows at most 4 images per tweet');
+  }
+  if (animated > 1 || (animated === 1 && media.length > 1)) {
+    throw new Error('X allows a single GIF or video per tweet and it cannot be combined with other media');
+  }
+}
+
+async function readUploadError(response: Response, fallback: string): Promise<never> {
+  const error = await response.json().catch(() => ({}));
+  throw apiError(response, error.detail || error.errors?.[0]?.message || fallback);
+}
+
+async function uploadImage(accessToken: string, blob: Blob): Promise<string> {
+  const form = new FormData();
+  form.append('media', blob);
+  form.append('media_category', 'tweet_image');
+
+  const response = await fetch(MEDIA_UPLOAD_URL, {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${accessToken}` },
+    body: form,
+  });
+
+  if (!response.ok) {
+    await readUploadError(response, 'Failed to upload image to X');
+  }
+
+  const data = await response.json();
+  return data.data.id;
+}
+
+async function waitForProcessing(accessToken: string, mediaId: string, deadline?: number): Promise<void> {
+  for (let attempt = 0; attempt < 60; attempt++) {
+    const response = await fetch(
+      `${MEDIA_UPLOAD_URL}?command=STATUS&media_id=${mediaId}`,
+      { headers: { Authorization: `Bearer ${accessToken}` } }
+    );
+
+    if (!response.ok) {
+      await readUploadError(response, 'Failed to check X media processing status');
+    }
+
+    const data = await response.json();
+    const info = data.data?.processing_info;
+    if (!info || info.state === 'succeeded') {
+      return;
+    }
+    if (info.state === 'failed') {
+      throw new Error(info.error?.message || 'X failed to process the uploaded media');
+    }
+
+    await waitToPoll((info.check_after_secs ?? 2) * 1000, deadline);
+  }
+
+  throw new Error('Timed out waiting for X to process the uploaded media');
+}
+
+// INIT/APPEND/FINALIZE upload used for GIFs and videos, followed by STATUS
+// polling until X has finished transcoding.
+async function uploadChunked(
+  accessToken: string,
+  blob: Blob,
+  type: 'gif' | 'video',
+  deadline?: number
+): Promise<string> {
+  const initResponse = await fetch(`${MEDIA_UPLOAD_URL}/initialize`, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      media_type: blob.type || (type === 'gif' ? 'image/gif' : 'video/mp4'),
+      total_bytes: blob.size,
+      media_category: type === 'gif' ? 'tweet_gif' : 'tweet_video',
+    }),
+  });
+
+  if (!initResponse.ok) {
+    await readUploadError(initResponse, 'Failed to start X media upload');
+  }
+
+  const mediaId: string = (await initResponse.json()).data.id;
+
+  for (let offset = 0, index = 0; offset < blob.size; offset += CHUNK_SIZE, index++) {
+    const form = new FormData();
+    form.append('media', blob.slice(offset, offset + CHUNK_SIZE));
+    form.append('segment_index', String(index));
+
+    const appendResponse = await fetch(`${MEDIA_UPLOAD_URL}/${mediaId}/append`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${accessToken}` },
+      body: form,
+    });
+
+    if (!appendResponse.ok) {
+      await readUploadError(appendResponse, 'Failed to upload media chunk to X');
+    }
+  }
+
+  const finalizeResponse = await fetch(`${MEDIA_UPLOAD_URL}/${mediaId}/finalize`, {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${accessToken}` },
+  });
+
+  if (!finalizeResponse.ok) {
+    await readUploadError(finalizeResponse, 'Failed to finalize X media upload');
+  }
+
+  const finalized = await finalizeResponse.json();
+  if (finalized.data?.processing_info) {
+    await waitForProcessing(accessToken, mediaId, deadline);
+  }
+
+  return mediaId;
+}
+
+async function uploadMedia(accessToken: string, media: PostMedia, deadline?: number): Promise<string> {
+  if (media.type === 'document') {
+    throw new Error('X does not support document attachments');
+  }
+
+  const blob = await downloadMedia(media.url);
+  if (blob.size > maxBytes[media.type]) {
+    throw new Error(`${media.type} is too large for X (max ${maxBytes[media.type] / (1024 * 1024)} MB)`);
+  }
+
+  return media.type === 'image'
+    ? await uploadImage(accessToken, blob)
+    : await uploadChunked(accessToken, blob, media.type, deadline);
+}
+
+async function postTweet(
+  accessToken: string,
+  text: string,
+  mediaIds: string[],
+  replyToId?: string
+): Promise<string> {
+  const response = await fetch('https://api.twitter.com/2/tweets', {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      text,
+      ...(mediaIds.length > 0 && { media: { media_ids: mediaIds } }),
+      ...(replyToId && { reply: { in_reply_to_tweet_id: replyToId } }),
+    }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw apiError(response, error.detail || 'Failed to post to Twitter');
+  }
+
+  const data = await response.json();
+  return data.data.id;
+}
+
+const tweetUrl = (id: string) => `https://twitter.com/i/web/status/${id}`;
+
+// Text over the limit (or split with "---" lines) goes out as a thread: each
+// tweet replies to the previous one and media is attached to the first.
+async function postToTwitter(
+  accessToken: string,
+  content: PostContent,
+  resume?: PublishResume
+): Promise<PostResult> {
+  const postedIds = [...(resume?.threadPostIds ?? [])];
+
+  try {
+    const segments = splitIntoThread(content.text, {
+      maxLength: twitterAdapter.limits.maxLength,
+      numbering: content.options?.thread?.numbering,
+      measure: tweetLength,
+    });
+
+    const media = content.media ?? [];
+    validateTwitterMedia(media);
+
+    const mediaIds: string[] = [];
+    if (postedIds.length === 0) {
+      for (const item of media) {
+        mediaIds.push(await uploadMedia(accessToken, item, resume?.deadline));
+      }
+    }
+
+    for (let index = postedIds.length; index < segments.length; index++) {
+      const id = await postTweet(
+        accessToken,
+        segments[index],
+        index === 0 ? mediaIds : [],
+        postedIds[index - 1]
+      );
+      postedIds.push(id);
+    }
+
+    return {
+      success: true,
+      postId: postedIds[0],
+      postUrl: tweetUrl(postedIds[0]),
+      threadPostIds: postedIds.length > 1 ? postedIds : undefined,
+    };
+  } catch (error) {
+    return failureResult(error, 'Failed to post to Twitter', {
+      ...(postedIds.length > 0 && {
+        postId: postedIds[0],
+        postUrl: tweetUrl(postedIds[0]),
+        threadPostIds: postedIds,
+      }),
+    });
+  }
+}
+
+export const twitterAdapter: PlatformAdapter = {
+  id: 'twitter',
+  name: 'Twitter',
+  icon: '𝕏',
+  color: 'bg-black',
+  oauth: {
+    authorizationUrl: 'https://twitter.com/i/oauth2/authorize',
+    tokenUrl: 'https://api.twitter.com/2/oauth2/token',
+    scope: 'tweet.read tweet.write users.read media.write offline.access',
+    // The app is a confidential client, which X requires to use HTTP Basic.
+    tokenAuth: 'basic',
+  },
+  limits: {
+    maxLength: 280,
+    maxMedia: 4,
+    requiresMedia: false,
+    measure: tweetLength,
+    threads: true,
+    mediaTypes: ['image', 'gif', 'video'],
+    aloneTypes: ['gif', 'video'],
+    maxBytes,
+    videoSeconds: { min: 0.5, max: 140 },
+  },
+
+  async fetchProfile(accessToken) {
+    const response = await fetch('https://api.twitter.com/2/users/me', {
+      headers: { Authorization: `Bearer ${accessToken}` },
+    });
+
+    if (!response.ok) {
+      throw apiError(response, 'Failed to fetch account info from twitter');
+    }
+
+    const data = await response.json();
+    return {
+      id: data.data.id,
+      name: data.data.name || data.data.username,
+      handle: `@${data.data.username}`,
+    };
+  },
+
+  profileUrl: (handle) => `https://twitter.com/${handle.replace(/^@/, '')}`,
+
+  // Takes an app-only bearer token.
+  async verifyUsername(username, bearerToken) {
+    const response = await fetch(
+      `https://api.twitter.com/2/users/by/username/${encodeURIComponent(username.replace(/^@/, ''))}`,
+      { headers: { Authorization: `Bearer ${bearerToken}` } }
+    );
+
+    if (response.status === 404) {
+      throw usernameNotFound('X');
+    }
+    if (!response.ok) {
+      throw apiError(response, 'Failed to look up X username');
+    }
+
+    // Unknown usernames come back as 200 with an errors array.
+    const data = await response.json();
+    if (!data.data) {
+      throw usernameNotFound('X');
+    }
+    return {
+      id: data.data.id,
+      name: data.data.name || data.data.username,
+      handle: `@${data.data.username}`,
+    };
+  },
+
+  publish: (accessToken, content, _account, resume) =>
+    postToTwitter(accessToken, content, resume),
+
+  async deletePost(accessToken, postId) {
+    const response = await fetch(`https://api.twitter.com/2/tweets/${postId}`, {
+      method: 'DELETE',
+      headers: { Authorization: `Bearer ${accessToken}` },
+    });
+
+    if (response.status === 404) {
+      return;
+    }
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw apiError(response, error.detail || 'Failed to delete tweet');
+    }
+  },
+
+  async fetchMetrics(accessToken, postId) {
+    const response = await fetch(
+      `https://api.twitter.com/2/tweets/${postId}?tweet.fields=public_metrics`,
+      { headers: { Authorization: `Bearer ${accessToken}` } }
+    );
+
+    if (!response.ok) {
+      throw new Error('Failed to fetch tweet metrics');
+    }
+
+    const data = await response.json();
+    const metrics = data.data.public_metrics;
+    return {
+      likes: metrics.like_count,
+      comments: metrics.reply_count,
+      shares: metrics.retweet_count + metrics.quote_count,
+      views: metrics.impression_count ?? 0,
+    };
+  },
+
+  // The refresh token goes first; left alone it would keep minting tokens.
+  revoke: async ({ accessToken, refreshToken, client }) => {
+    const { headers, params } = clientAuthentication(twitterAdapter.oauth ?? {}, client);
+    const revoke = (token: string, tokenTypeHint: string) =>
+      revokeWithForm(
+        'https://api.twitter.com/2/oauth2/revoke',
+        { token, token_type_hint: tokenTypeHint, ...params },
+        headers
+      );
+
+    if (refreshToken) {
+      await revoke(refreshToken, 'refresh_token');
+    }
+    return await revoke(accessToken, 'access_token');
+  },
+};
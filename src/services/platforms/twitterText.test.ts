@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest';
+import { tweetLength } from './twitterText.ts';
+
+describe('tweetLength', () => {
+  it('counts Latin text one per character', () => {
+    expect(tweetLength('Hello, world!')).toBe(13);
+  });
+
+  it('counts every link as 23 characters, however long', () => {
+    expect(tweetLength('https://t.co')).toBe(23);
+    expect(tweetLength(`See https://example.com/${'a'.repeat(200)} and www.example.org`)).toBe(4 + 23 + 5 + 23);
+  });
+
+  it('counts CJK characters and emoji as two', () => {
+    expect(tweetLength('日本語')).toBe(6);
+    expect(tweetLength('👍🏽')).toBe(2);
+    expect(tweetLength('👨‍👩‍👧')).toBe(2);
+  });
+});
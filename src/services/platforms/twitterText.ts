@@ -0,0 +1,42 @@
+// X's weighted character count (the twitter-text v3 rules): every URL counts
+// as 23 characters, an emoji sequence counts as 2, characters from Latin,
+// general punctuation and similar ranges count as 1 and everything else
+// (CJK, for example) as 2.
+const URL_WEIGHT = 23;
+const EMOJI_WEIGHT = 2;
+
+const LIGHT_RANGES: [number, number][] = [
+  [0x0000, 0x10ff],
+  [0x2000, 0x200d],
+  [0x2010, 0x201f],
+  [0x2032, 0x2037],
+];
+
+// X links bare domains too; only explicit links are matched here, so the
+// count can come out lower than X's for text like "example.com".
+const URL_PATTERN = /\b(?:https?:\/\/|www\.)[^\s]+/gi;
+const EMOJI_PATTERN =
+  /\p{Extended_Pictographic}(?:\uFE0F|\p{Emoji_Modifier}|\u200D\p{Extended_Pictographic}\uFE0F?)*|\p{Regional_Indicator}{2}/gu;
+
+function charWeight(char: string): number {
+  const codePoint = char.codePointAt(0) ?? 0;
+  return LIGHT_RANGES.some(([start, end]) => codePoint >= start && codePoint <= end) ? 1 : 2;
+}
+
+export function tweetLength(text: string): number {
+  let length = 0;
+
+  const withoutUrls = text.replace(URL_PATTERN, () => {
+    length += URL_WEIGHT;
+    return '';
+  });
+  const withoutEmoji = withoutUrls.replace(EMOJI_PATTERN, () => {
+    length += EMOJI_WEIGHT;
+    return '';
+  });
+
+  for (const char of withoutEmoji) {
+    length += charWeight(char);
+  }
+  return length;
+}
@@ -0,0 +1,289 @@
+export type MediaType = 'image' | 'gif' | 'video' | 'document';
+
+export interface PostMedia {
+  url: string;
+  type: MediaType;
+  altText?: string;
+  // Captured by the composer at upload time (content_posts.media_metadata)
+  // so platform rules can be checked without downloading the file.
+  width?: number;
+  height?: number;
+  durationSeconds?: number;
+  sizeBytes?: number;
+}
+
+export type MediaMetadata = Pick<PostMedia, 'width' | 'height' | 'durationSeconds' | 'sizeBytes'>;
+
+export interface ThreadOptions {
+  numbering?: boolean;
+}
+
+// Per-platform settings stored in content_posts.platform_options, keyed by
+// platform id.
+export interface ReelOptions {
+  coverUrl?: string;
+  shareToFeed?: boolean;
+}
+
+// Audience and interaction settings; TikTok requires the privacy level to be
+// chosen explicitly for every post.
+export interface PrivacyOptions {
+  level?: string;
+  disableComment?: boolean;
+  disableDuet?: boolean;
+  disableStitch?: boolean;
+}
+
+export interface PostOptions {
+  thread?: ThreadOptions;
+  reel?: ReelOptions;
+  privacy?: PrivacyOptions;
+  contentWarning?: string;
+  // Who can reply, for networks that support limiting replies (Threads).
+  replyControl?: string;
+}
+
+// Per-platform overrides stored in content_posts.platform_variants, keyed by
+// platform id. Whatever a variant leaves unset falls back to the base post.
+export interface PlatformVariant {
+  text?: string;
+  // Subset of the post's media_urls to attach; all of them when unset.
+  mediaUrls?: string[];
+  firstComment?: string;
+}
+
+// Link preview card, stored in content_posts.link.
+export interface PostLink {
+  url: string;
+  title?: string;
+  description?: string;
+}
+
+export interface PostContent {
+  text: string;
+  media?: PostMedia[];
+  link?: PostLink;
+  options?: PostOptions;
+  // Posted as a comment on the new post right after it is published, e.g.
+  // hashtags kept out of an Instagram caption.
+  firstComment?: string;
+}
+
+// Why a publish failed. rate_limited and transient failures are retried;
+// the rest are final: auth needs the account reconnected, duplicate means
+// the network refused content it already has and invalid covers everything
+// the network rejected about the post itself.
+export type ErrorCategory = 'rate_limited' | 'transient' | 'auth' | 'duplicate' | 'invalid';
+
+export interface PostResult {
+  success: boolean;
+  postId?: string;
+  postUrl?: string;
+  error?: string;
+  errorCategory?: ErrorCategory;
+  // How long the network asked us to wait before trying again.
+  retryAfterMs?: number;
+  // Every post of a thread in order, including those posted before a failure,
+  // or every message of a Telegram album.
+  threadPostIds?: string[];
+}
+
+// What earlier attempts of the same publish left behind: posts created by a
+// thread that stopped part way, so it can pick up where it stopped instead of
+// starting over, and the idempotency key every attempt shares, for networks
+// that deduplicate requests themselves.
+export interface PublishResume {
+  threadPostIds?: string[];
+  idempotencyKey?: string;
+  // Epoch ms the caller has to answer by. Waits for media processing that
+  // would run past it fail as transient, so the post can be requeued.
+  deadline?: number;
+}
+
+export interface AccountProfile {
+  // The platform's own id for the user, Page or channel; handles can change
+  // and are not unique across pages or servers.
+  id: string;
+  name: string;
+  handle: string;
+}
+
+// An account saved as its own social_accounts row with its own credential,
+// e.g. a Facebook Page with its page access token or a Discord webhook.
+export interface ConnectableAccount extends AccountProfile {
+  accessToken: string;
+}
+
+// Tokens of a session-based login such as Bluesky's app passwords, which are
+// refreshed through the adapter instead of an OAuth token endpoint.
+export interface SessionTokens {
+  accessToken: string;
+  refreshToken: string;
+  expiresAt: string | null;
+}
+
+export interface PasswordSession extends SessionTokens, AccountProfile {
+  instanceUrl: string;
+}
+
+// A credential field asked for when adding a destination, i.e. a target that
+// needs no OAuth such as a Telegram channel or a Discord webhook.
+export interface DestinationField {
+  name: string;
+  label: string;
+  placeholder?: string;
+  secret?: boolean;
+}
+
+export interface DestinationSettings {
+  fields: DestinationField[];
+  // Checks the credentials against the platform and returns the row to save;
+  // throws with a readable message when they are wrong.
+  connect(values: Record<string, string>): Promise<ConnectableAccount>;
+}
+
+// Connection health set on each account by the check-account-health job.
+// expiring: the token expires soon and cannot be refreshed; needs_reconnect:
+// it expired or refreshing failed; revoked: the network rejected a valid
+// token, so access was withdrawn on the network's side.
+export type AccountHealth = 'healthy' | 'expiring' | 'needs_reconnect' | 'revoked';
+
+// What an adapter knows about the social_accounts row it is acting for.
+export interface AccountContext {
+  // The platform's own id for the account (external_account_id), e.g. the
+  // Instagram user or Facebook Page id; handles are for display.
+  externalId: string;
+  handle: string;
+  // Base URL of the server the account lives on, for federated networks.
+  instanceUrl?: string;
+}
+
+// Everything a provider may need to withdraw the app's access. Revocation
+// runs in an edge function, which holds the tokens and the app's client
+// credentials.
+export interface RevokeRequest {
+  accessToken: string;
+  refreshToken?: string;
+  client: {
+    clientId: string;
+    clientSecret: string;
+  };
+  account: AccountContext;
+}
+
+// What disconnecting did at the provider. Networks that cannot withdraw the
+// app's access through their API say where the user can do it instead.
+export type RevokeOutcome =
+  | { revoked: true }
+  | { revoked: false; manual: string };
+
+export interface PostMetrics {
+  likes: number;
+  comments: number;
+  shares: number;
+  views: number;
+}
+
+export interface OAuthSettings {
+  authorizationUrl: string;
+  tokenUrl: string;
+  scope: string;
+  // Name of the client id parameter; TikTok calls it client_key.
+  clientIdParam?: string;
+  // How the app authenticates at the token and revoke endpoints: HTTP Basic,
+  // or the client secret in the form body (the default).
+  tokenAuth?: 'basic' | 'body';
+  // Federated networks have no central OAuth server: the URLs above are paths
+  // on the user's instance and the client is registered per instance.
+  instanceBased?: boolean;
+  // Meta's code grant returns a token that lasts about an hour; this exchange
+  // trades it for a long-lived one right after connecting.
+  longLivedToken?: {
+    url: string;
+    grantType: string;
+    tokenParam: string;
+    // Instagram and Threads renew a long-lived token by trading it in
+    // before it expires. Such tokens are stored as their own refresh token.
+    refresh?: {
+      url: string;
+      grantType: string;
+    };
+  };
+}
+
+export interface Range {
+  min: number;
+  max: number;
+}
+
+// What a post has to fit, read by the composer's pre-publish checks as well
+// as by the adapter itself.
+export interface ContentLimits {
+  maxLength: number;
+  maxMedia: number;
+  requiresMedia: boolean;
+  // Text length as the platform counts it; code points unless given.
+  measure?: (text: string) => number;
+  // Over-long text is split into a thread rather than rejected.
+  threads?: boolean;
+  // The length limit is a common default that servers can change.
+  lengthVaries?: boolean;
+  // Limit for the text when it is sent as a media caption.
+  captionLength?: number;
+  mediaTypes: MediaType[];
+  // Types that cannot share a post with any other attachment.
+  aloneTypes?: MediaType[];
+  maxBytes?: Partial<Record<MediaType, number>>;
+  videoSeconds?: Range;
+  imageAspectRatio?: Range;
+  videoAspectRatio?: Range;
+  maxHashtags?: number;
+  maxMentions?: number;
+}
+
+export interface PlatformAdapter {
+  id: string;
+  name: string;
+  icon: string;
+  color: string;
+  // Absent for networks that connect with a password session or as a
+  // destination instead.
+  oauth?: OAuthSettings;
+  destination?: DestinationSettings;
+  limits: ContentLimits;
+  fetchProfile(accessToken: string, instanceUrl?: string): Promise<AccountProfile>;
+  // Public page of an account, from the handle fetchProfile returned or a
+  // username entered by hand.
+  profileUrl?(handle: string): string | undefined;
+  // Checks a username exists before an account is added by hand, throwing
+  // a PlatformApiError with category invalid when it does not. `accessToken`
+  // is an app-level credential on networks whose lookup needs one.
+  verifyUsername?(username: string, accessToken: string): Promise<AccountProfile>;
+  listConnectableAccounts?(accessToken: string): Promise<ConnectableAccount[]>;
+  createSession?(identifier: string, password: string): Promise<PasswordSession>;
+  refreshSession?(refreshToken: string, instanceUrl?: string): Promise<SessionTokens>;
+  publish(
+    accessToken: string,
+    content: PostContent,
+    account: AccountContext,
+    resume?: PublishResume
+  ): Promise<PostResult>;
+  // Looks for a post with this content's text created at or after `since`,
+  // to settle a publish that stopped before its result was stored.
+  findPost?(
+    accessToken: string,
+    content: PostContent,
+    account: AccountContext,
+    since: string
+  ): Promise<PostResult | null>;
+  // A post that is already gone counts as deleted, so deleting a thread
+  // again after a failure gets past the posts removed the first time.
+  deletePost?(accessToken: string, postId: string, account: AccountContext): Promise<void>;
+  // Comments on a published post as the account and returns the comment id.
+  postComment?(accessToken: string, postId: string, text: string, account: AccountContext): Promise<string>;
+  // Replaces the text of a published post, for networks that allow editing.
+  editPost?(accessToken: string, postId: string, text: string, account: AccountContext): Promise<void>;
+  fetchMetrics?(accessToken: string, postId: string, account: AccountContext): Promise<PostMetrics>;
+  // Throws when the provider refuses.
+  revoke(request: RevokeRequest): Promise<RevokeOutcome>;
+}
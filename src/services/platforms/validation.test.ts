@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { blueskyAdapter } from './bluesky.ts';
+import { instagramAdapter } from './instagram.ts';
+import { linkedinAdapter } from './linkedin.ts';
+import { mastodonAdapter } from './mastodon.ts';
+import { telegramAdapter } from './telegram.ts';
+import { tiktokAdapter } from './tiktok.ts';
+import { twitterAdapter } from './twitter.ts';
+import type { PostMedia } from './types.ts';
+import { checkContent } from './validation.ts';
+
+const image = (extra: Partial<PostMedia> = {}): PostMedia => ({
+  url: 'https://cdn.example.com/a.jpg',
+  type: 'image',
+  ...extra,
+});
+const video = (extra: Partial<PostMedia> = {}): PostMedia => ({
+  url: 'https://cdn.example.com/a.mp4',
+  type: 'video',
+  ...extra,
+});
+
+const messages = (issues: ReturnType<typeof checkContent>) =>
+  issues.map(({ level, message }) => `${level}: ${message}`);
+
+describe('checkContent', () => {
+  it('passes a post that fits', () => {
+    expect(checkContent(linkedinAdapter, { text: 'Hello', media: [image()] })).toEqual([]);
+  });
+
+  it('warns that long X posts become a thread', () => {
+    const text = Array.from({ length: 40 }, () => 'A sentence of some length.').join(' ');
+
+    expect(messages(checkContent(twitterAdapter, { text }))).toEqual([
+      'warning: 1079/280 characters: will be posted as a thread of 4 posts',
+    ]);
+  });
+
+  it('only warns about Mastodon length, since servers set their own limit', () => {
+    expect(messages(checkContent(mastodonAdapter, { text: 'a'.repeat(501) }))).toEqual([
+      'warning: 501/500 characters: longer than most servers allow',
+    ]);
+  });
+
+  it('applies the Telegram caption limit only when media is attached', () => {
+    const text = 'a'.repeat(1025);
+
+    expect(checkContent(telegramAdapter, { text })).toEqual([]);
+    expect(messages(checkContent(telegramAdapter, { text, media: [image()] }))).toEqual([
+      'error: Captions are limited to 1024 characters when media is attached (1025 now)',
+    ]);
+  });
+
+  it('requires media where the platform does', () => {
+    expect(messages(checkContent(instagramAdapter, { text: 'Hello' }))).toEqual([
+      'error: Instagram posts need an image or video',
+    ]);
+    expect(messages(checkContent(tiktokAdapter, { text: 'Hello', media: [image()] }))).toEqual([
+      'error: Images are not supported',
+    ]);
+  });
+
+  it('limits Instagram hashtags and aspect ratios', () => {
+    const text = Array.from({ length: 31 }, (_, i) => `#tag${i}`).join(' ');
+
+    expect(messages(checkContent(instagramAdapter, { text, media: [image({ width: 1000, height: 2000 })] }))).toEqual([
+      'error: At most 30 hashtags are allowed (31 used)',
+      'error: Attachment 1 has an aspect ratio of 0.50:1; it must be between 0.80:1 and 1.91:1',
+    ]);
+  });
+
+  it('checks sizes, durations and what can share a post', () => {
+    expect(messages(checkContent(blueskyAdapter, { text: 'Hi', media: [image({ sizeBytes: 2_000_000 })] }))).toEqual([
+      'error: Attachment 1 is 2 MB; images can be at most 1000 KB',
+    ]);
+    expect(messages(checkContent(twitterAdapter, { text: 'Hi', media: [video({ durationSeconds: 200 }), image()] }))).toEqual([
+      'error: Videos have to be posted on their own',
+      'error: Attachment 1 must be between 0.5 s and 140 s long',
+    ]);
+  });
+
+  it('warns when the platform cannot take a first comment', () => {
+    expect(messages(checkContent(telegramAdapter, { text: 'Hi', firstComment: 'More' }))).toEqual([
+      'warning: Telegram does not support first comments; it will be skipped',
+    ]);
+  });
+});
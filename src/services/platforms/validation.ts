@@ -0,0 +1,163 @@
+import { MB } from './media.ts';
+import { splitIntoThread } from './thread.ts';
+import type { ContentLimits, MediaType, PlatformAdapter, PostContent, PostMedia, Range } from './types.ts';
+
+// Pre-publish checks so the composer can flag problems while the post is
+// still being written instead of surfacing them as API errors at publish
+// time. The rules come from each adapter's limits, the same values its own
+// checks enforce at publish time.
+export interface ValidationIssue {
+  platform: string;
+  level: 'error' | 'warning';
+  message: string;
+}
+
+const HASHTAG_PATTERN = /(?:^|\s)#[\p{L}\p{N}_]+/gu;
+const MENTION_PATTERN = /(?:^|\s)@[\w.]+/g;
+
+const countChars = (text: string) => [...text].length;
+
+const MEDIA_LABELS: Record<MediaType, string> = {
+  image: 'images',
+  gif: 'GIFs',
+  video: 'videos',
+  document: 'documents',
+};
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+function formatBytes(bytes: number): string {
+  return bytes >= MB ? `${Math.round(bytes / MB)} MB` : `${Math.round(bytes / 1000)} KB`;
+}
+
+function formatSeconds(seconds: number): string {
+  return seconds >= 60 && seconds % 60 === 0 ? `${seconds / 60} min` : `${seconds} s`;
+}
+
+function checkText(
+  rules: ContentLimits,
+  content: PostContent,
+  issue: (level: ValidationIssue['level'], message: string) => void
+): void {
+  const measure = rules.measure ?? countChars;
+  const { maxLength } = rules;
+  const length = measure(content.text);
+  const hasMedia = (content.media ?? []).length > 0;
+
+  if (rules.captionLength && hasMedia && length > rules.captionLength) {
+    issue('error', `Captions are limited to ${rules.captionLength} characters when media is attached (${length} now)`);
+  } else if (length > maxLength) {
+    if (rules.threads) {
+      const posts = splitIntoThread(content.text, {
+        maxLength,
+        numbering: content.options?.thread?.numbering,
+        measure,
+      }).length;
+      issue('warning', `${length}/${maxLength} characters: will be posted as a thread of ${posts} posts`);
+    } else if (rules.lengthVaries) {
+      issue('warning', `${length}/${maxLength} characters: longer than most servers allow`);
+    } else {
+      issue('error', `${length}/${maxLength} characters: shorten the text by ${length - maxLength}`);
+    }
+  }
+
+  const hashtags = content.text.match(HASHTAG_PATTERN)?.length ?? 0;
+  if (rules.maxHashtags !== undefined && hashtags > rules.maxHashtags) {
+    issue('error', `At most ${rules.maxHashtags} hashtags are allowed (${hashtags} used)`);
+  }
+
+  const mentions = content.text.match(MENTION_PATTERN)?.length ?? 0;
+  if (rules.maxMentions !== undefined && mentions > rules.maxMentions) {
+    issue('error', `At most ${rules.maxMentions} mentions are allowed (${mentions} used)`);
+  }
+}
+
+function checkRange(
+  value: number | undefined,
+  range: Range | undefined,
+  describe: (range: Range) => string,
+  issue: (message: string) => void
+): void {
+  if (value === undefined || !range) return;
+  if (value < range.min - 0.01 || value > range.max + 0.01) {
+    issue(describe(range));
+  }
+}
+
+function checkMediaItem(
+  item: PostMedia,
+  index: number,
+  rules: ContentLimits,
+  issue: (message: string) => void
+): void {
+  const label = `Attachment ${index + 1}`;
+
+  const maxBytes = rules.maxBytes?.[item.type];
+  if (maxBytes && item.sizeBytes && item.sizeBytes > maxBytes) {
+    issue(`${label} is ${formatBytes(item.sizeBytes)}; ${MEDIA_LABELS[item.type]} can be at most ${formatBytes(maxBytes)}`);
+  }
+
+  if (item.type === 'video') {
+    checkRange(
+      item.durationSeconds,
+      rules.videoSeconds,
+      ({ min, max }) => `${label} must be between ${formatSeconds(min)} and ${formatSeconds(max)} long`,
+      issue
+    );
+  }
+
+  const ratioRange = item.type === 'video' ? rules.videoAspectRatio : rules.imageAspectRatio;
+  const ratio = item.width && item.height ? item.width / item.height : undefined;
+  checkRange(
+    ratio,
+    ratioRange,
+    ({ min, max }) =>
+      `${label} has an aspect ratio of ${ratio?.toFixed(2)}:1; it must be between ${min.toFixed(2)}:1 and ${max.toFixed(2)}:1`,
+    issue
+  );
+}
+
+function checkMedia(
+  adapter: PlatformAdapter,
+  media: PostMedia[],
+  issue: (level: ValidationIssue['level'], message: string) => void
+): void {
+  const error = (message: string) => issue('error', message);
+  const rules = adapter.limits;
+  const { maxMedia, requiresMedia } = rules;
+
+  if (requiresMedia && media.length === 0) {
+    error(`${adapter.name} posts need ${rules.mediaTypes.includes('image') ? 'an image or video' : 'a video'}`);
+  }
+  if (media.length > maxMedia) {
+    error(`At most ${maxMedia} attachment${maxMedia === 1 ? '' : 's'} per post (${media.length} added)`);
+  }
+
+  const unsupported = [...new Set(media.map((item) => item.type))]
+    .filter((type) => !rules.mediaTypes.includes(type));
+  if (unsupported.length > 0) {
+    error(capitalize(`${unsupported.map((type) => MEDIA_LABELS[type]).join(' and ')} are not supported`));
+  }
+
+  const alone = media.find((item) => rules.aloneTypes?.includes(item.type));
+  if (alone && media.length > 1) {
+    error(`${capitalize(MEDIA_LABELS[alone.type])} have to be posted on their own`);
+  }
+
+  media.forEach((item, index) => checkMediaItem(item, index, rules, error));
+}
+
+export function checkContent(adapter: PlatformAdapter, content: PostContent): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const issue = (level: ValidationIssue['level'], message: string) =>
+    issues.push({ platform: adapter.id, level, message });
+
+  checkText(adapter.limits, content, issue);
+  checkMedia(adapter, content.media ?? [], issue);
+
+  if (content.firstComment?.trim() && !adapter.postComment) {
+    issue('warning', `${adapter.name} does not support first comments; it will be skipped`);
+  }
+
+  return issues;
+}
@@ -0,0 +1,19 @@
+import type { PlatformVariant, PostContent } from './types.ts';
+
+// Resolves what one platform gets from a post: the variant's text and first
+// comment when it has any, and only the media it picked.
+export function applyVariant(content: PostContent, variant?: PlatformVariant): PostContent {
+  if (!variant) {
+    return content;
+  }
+
+  const mediaUrls = variant.mediaUrls;
+  return {
+    ...content,
+    text: variant.text?.trim() ? variant.text : content.text,
+    firstComment: variant.firstComment?.trim() ? variant.firstComment : content.firstComment,
+    media: mediaUrls
+      ? content.media?.filter((item) => mediaUrls.includes(item.url))
+      : content.media,
+  };
+}
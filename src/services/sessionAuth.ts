@@ -0,0 +1,36 @@
+import { invokeFunction } from './edgeFunctions';
+import type { AccountProfile } from './platforms';
+
+// Connect paths for platforms without OAuth. The connect-account function
+// checks the credentials against the platform and saves the resulting tokens,
+// so they never reach the browser again.
+
+// Bluesky app passwords: the password is exchanged for a session right away
+// and only the session tokens are saved.
+export async function connectWithPassword(
+  platform: string,
+  identifier: string,
+  password: string
+): Promise<AccountProfile> {
+  const { account } = await invokeFunction<{ account: AccountProfile }>('connect-account', {
+    action: 'password',
+    platform,
+    identifier,
+    password,
+  });
+  return account;
+}
+
+// Telegram channels and Discord webhooks: the adapter checks the credentials
+// against the platform before anything is saved.
+export async function connectDestination(
+  platform: string,
+  values: Record<string, string>
+): Promise<AccountProfile> {
+  const { account } = await invokeFunction<{ account: AccountProfile }>('connect-account', {
+    action: 'destination',
+    platform,
+    values,
+  });
+  return account;
+}
@@ -1,278 +1,90 @@
-import { getValidToken } from './tokenManager';
-import { supabase, supabaseUrl, supabaseAnonKey } from '../lib/supabase';
+import { supabaseUrl, supabaseAnonKey } from '../lib/supabase';
+import { invokeFunction } from './edgeFunctions';
+import { getPlatformAdapter, type PlatformVariant, type PostContent, type PostResult } from './platforms';
 
-export interface PostContent {
-  text: string;
-  mediaUrl?: string;
-  mediaType?: 'image' | 'video';
-}
-
-export interface PostResult {
-  success: boolean;
-  postId?: string;
-  postUrl?: string;
-  error?: string;
-}
+export type { PostContent, PostResult };
 
-async function postToTwitter(
-  accessToken: string ,
-  content: PostContent
-): Promise<PostResult> {
-  try {
-    const response = await fetch('https://api.twitter.com/2/tweets', {
-      method: 'POST',
-      headers: {
-        Authorization: `Bearer ${accessToken}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        text: content.text,
-      }),
-    });
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.detail || 'Failed to post to Twitter');
-    }
-
-    const data = await response.json();
-    return {
-      success: true,
-      postId: data.data.id,
-      postUrl: `https://twitter.com/i/web/status/${data.data.id}`,
-    };
-  } catch (error: any) {
-    return {
-      success: false,
-      error: error.message,
-    };
-  }
-}
+// Publishing, deleting and editing need the account's token, so they run in
+// the publication-actions edge function; tokens are never decrypted in the
+// browser.
 
-async function postToLinkedIn(
-  accessToken: string,
+// `variants` holds the post's per-platform overrides; the account's platform
+// picks which one applies.
+export async function publishPost(
+  accountId: string,
   content: PostContent,
-  userId: string
+  contentPostId: string | null = null,
+  variants: Record<string, PlatformVariant> = {}
 ): Promise<PostResult> {
   try {
-    const response = await fetch('https://api.linkedin.com/v2/ugcPosts', {
-      method: 'POST',
-      headers: {
-        Authorization: `Bearer ${accessToken}`,
-        'Content-Type': 'application/json',
-        'X-Restli-Protocol-Version': '2.0.0',
-      },
-      body: JSON.stringify({
-        author: `urn:li:person:${userId}`,
-        lifecycleState: 'PUBLISHED',
-        specificContent: {
-          'com.linkedin.ugc.ShareContent': {
-            shareCommentary: {
-              text: content.text,
-            },
-            shareMediaCategory: 'NONE',
-          },
-        },
-        visibility: {
-          'com.linkedin.ugc.MemberNetworkVisibility': 'PUBLIC',
-        },
-      }),
+    return await invokeFunction<PostResult>('publication-actions', {
+      action: 'publish',
+      accountId,
+      content,
+      contentPostId,
+      variants,
     });
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.message || 'Failed to post to LinkedIn');
-    }
-
-    const data = await response.json();
-    return {
-      success: true,
-      postId: data.id,
-    };
-  } catch (error: any) {
+  } catch (error) {
     return {
       success: false,
-      error: error.message,
+      error: error instanceof Error ? error.message : 'Failed to publish post',
     };
   }
 }
 
-async function postToFacebook(
-  accessToken: string,
+export async function publishToMultipleAccounts(
+  accountIds: string[],
   content: PostContent,
-  pageId: string
-): Promise<PostResult> {
-  try {
-    const response = await fetch(
-      `https://graph.facebook.com/v18.0/${pageId}/feed`,
-      {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          message: content.text,
-          access_token: accessToken,
-        }),
-      }
-    );
+  contentPostId: string | null = null,
+  variants: Record<string, PlatformVariant> = {}
+): Promise<{ accountId: string; result: PostResult }[]> {
+  const results = await Promise.all(
+    [...new Set(accountIds)].map(async (accountId) => ({
+      accountId,
+      result: await publishPost(accountId, content, contentPostId, variants),
+    }))
+  );
 
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.error?.message || 'Failed to post to Facebook');
-    }
+  return results;
+}
 
-    const data = await response.json();
-    return {
-      success: true,
-      postId: data.id,
-    };
-  } catch (error: any) {
-    return {
-      success: false,
-      error: error.message,
-    };
-  }
+export interface PublicationActionResult {
+  publicationId: string;
+  success: boolean;
+  error?: string;
 }
 
-async function postToInstagram(
-  accessToken: string,
-  content: PostContent,
-  accountId: string
-): Promise<PostResult> {
+// Deletes every post the publication created and marks it deleted.
+export async function deletePublication(publicationId: string): Promise<PublicationActionResult> {
   try {
-    if (!content.mediaUrl) {
-      throw new Error('Instagram posts require an image or video');
-    }
-
-    const createResponse = await fetch(
-      `https://graph.instagram.com/v18.0/${accountId}/media`,
-      {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          image_url: content.mediaUrl,
-          caption: content.text,
-          access_token: accessToken,
-        }),
-      }
-    );
-
-    if (!createResponse.ok) {
-      const error = await createResponse.json();
-      throw new Error(error.error?.message || 'Failed to create Instagram media');
-    }
-
-    const createData = await createResponse.json();
-    const creationId = createData.id;
-
-    const publishResponse = await fetch(
-      `https://graph.instagram.com/v18.0/${accountId}/media_publish`,
-      {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          creation_id: creationId,
-          access_token: accessToken,
-        }),
-      }
-    );
-
-    if (!publishResponse.ok) {
-      const error = await publishResponse.json();
-      throw new Error(error.error?.message || 'Failed to publish Instagram post');
-    }
-
-    const publishData = await publishResponse.json();
-    return {
-      success: true,
-      postId: publishData.id,
-    };
-  } catch (error: any) {
+    await invokeFunction('publication-actions', { action: 'delete', publicationId });
+    return { publicationId, success: true };
+  } catch (error) {
     return {
+      publicationId,
       success: false,
-      error: error.message,
+      error: error instanceof Error ? error.message : 'Failed to delete post',
     };
   }
 }
 
-export async function publishPost(
-  accountId: string,
-  content: PostContent
-): Promise<PostResult> {
+// Replaces the text of a published post and marks it edited.
+export async function editPublication(
+  publicationId: string,
+  text: string
+): Promise<PublicationActionResult> {
   try {
-    const { data: account, error } = await supabase
-      .from('social_accounts')
-      .select('platform, account_handle')
-      .eq('id', accountId)
-      .maybeSingle();
-
-    if (error || !account) {
-      throw new Error('Account not found');
-    }
-
-    const accessToken = await getValidToken(accountId, account.platform);
-
-    let result: PostResult;
-
-    switch (account.platform) {
-      case 'twitter':
-        result = await postToTwitter(accessToken, content);
-        break;
-      case 'linkedin':
-        result = await postToLinkedIn(accessToken, content, account.account_handle);
-        break;
-      case 'facebook':
-        result = await postToFacebook(accessToken, content, account.account_handle);
-        break;
-      case 'instagram':
-        result = await postToInstagram(accessToken, content, account.account_handle);
-        break;
-      default:
-        result = {
-          success: false,
-          error: `Unsupported platform: ${account.platform}`,
-        };
-    }
-
-    if (result.success) {
-      await supabase.from('posts').insert({
-        account_id: accountId,
-        content: content.text,
-        media_url: content.mediaUrl,
-        status: 'published',
-        published_at: new Date().toISOString(),
-        external_post_id: result.postId,
-      });
-    }
-
-    return result;
-  } catch (error: any) {
+    await invokeFunction('publication-actions', { action: 'edit', publicationId, text });
+    return { publicationId, success: true };
+  } catch (error) {
     return {
+      publicationId,
       success: false,
-      error: error.message || 'Failed to publish post',
+      error: error instanceof Error ? error.message : 'Failed to edit post',
     };
   }
 }
 
-export async function publishToMultipleAccounts(
-  accountIds: string[],
-  content: PostContent
-): Promise<{ accountId: string; result: PostResult }[]> {
-  const results = await Promise.all(
-    accountIds.map(async (accountId) => ({
-      accountId,
-      result: await publishPost(accountId, content),
-    }))
-  );
-
-  return results;
-}
-
 export interface VerifyUsernameResult {
   exists: boolean;
   username?: string;
@@ -281,6 +93,8 @@ export interface VerifyUsernameResult {
   error?: string;
 }
 
+// X does not allow requests from the browser, so its lookup runs in the
+// verify-twitter-username edge function.
 export async function verifyTwitterUsername(username: string): Promise<VerifyUsernameResult> {
   try {
     const cleanUsername = username.replace('@', '');
@@ -320,119 +134,36 @@ export async function verifyTwitterUsername(username: string): Promise<VerifyUse
   }
 }
 
-export async function verifyLinkedInProfile(profileUrl: string): Promise<VerifyUsernameResult> {
-  try {
-    const response = await fetch('https://api.linkedin.com/v2/me', {
-      method: 'GET',
-      headers: {
-        'Authorization': `Bearer ${import.meta.env.VITE_LINKEDIN_ACCESS_TOKEN || ''}`,
-      },
-    });
-
-    if (!response.ok) {
-      throw new Error('Failed to verify LinkedIn profile');
-    }
-
-    const data = await response.json();
-    return {
-      exists: true,
-      username: data.id,
-      displayName: `${data.localizedFirstName} ${data.localizedLastName}`,
-      profileUrl: profileUrl,
-    };
-  } catch (error: any) {
-    return {
-      exists: false,
-      error: error.message || 'Failed to verify LinkedIn profile',
-    };
+// Other lookups run in the browser through the platform's adapter, with an
+// app-level credential from VITE_<PLATFORM>_ACCESS_TOKEN where one is needed.
+export async function verifyUsername(platform: string, username: string): Promise<VerifyUsernameResult> {
+  if (platform === 'twitter') {
+    return verifyTwitterUsername(username);
   }
-}
 
-export async function verifyFacebookPage(pageId: string): Promise<VerifyUsernameResult> {
-  try {
-    const response = await fetch(
-      `https://graph.facebook.com/v18.0/${pageId}?fields=id,name,username&access_token=${import.meta.env.VITE_FACEBOOK_ACCESS_TOKEN || ''}`,
-      {
-        method: 'GET',
-      }
-    );
-
-    if (!response.ok) {
-      if (response.status === 404) {
-        return {
-          exists: false,
-          error: 'Page not found on Facebook',
-        };
-      }
-      throw new Error('Failed to verify Facebook page');
-    }
-
-    const data = await response.json();
-    return {
-      exists: true,
-      username: data.username || data.id,
-      displayName: data.name,
-      profileUrl: `https://facebook.com/${data.username || data.id}`,
-    };
-  } catch (error: any) {
+  const adapter = getPlatformAdapter(platform);
+  if (!adapter?.verifyUsername) {
     return {
       exists: false,
-      error: error.message || 'Failed to verify Facebook page',
+      error: `Platform ${platform} is not supported for verification`,
     };
   }
-}
 
-export async function verifyInstagramAccount(username: string): Promise<VerifyUsernameResult> {
   try {
-    const cleanUsername = username.replace('@', '');
-
-    const response = await fetch(
-      `https://graph.instagram.com/v18.0/me?fields=id,username&access_token=${import.meta.env.VITE_INSTAGRAM_ACCESS_TOKEN || ''}`,
-      {
-        method: 'GET',
-      }
+    const profile = await adapter.verifyUsername(
+      username,
+      import.meta.env[`VITE_${platform.toUpperCase()}_ACCESS_TOKEN`] || ''
     );
-
-    if (!response.ok) {
-      throw new Error('Failed to verify Instagram account');
-    }
-
-    const data = await response.json();
-    if (data.username.toLowerCase() !== cleanUsername.toLowerCase()) {
-      return {
-        exists: false,
-        error: 'Username does not match authenticated account',
-      };
-    }
-
     return {
       exists: true,
-      username: data.username,
-      displayName: data.username,
-      profileUrl: `https://instagram.com/${data.username}`,
+      username: profile.handle,
+      displayName: profile.name,
+      profileUrl: adapter.profileUrl?.(profile.handle),
     };
-  } catch (error: any) {
+  } catch (error) {
     return {
       exists: false,
-      error: error.message || 'Failed to verify Instagram account',
+      error: error instanceof Error ? error.message : `Failed to verify ${adapter.name} account`,
     };
   }
 }
-
-export async function verifyUsername(platform: string, username: string): Promise<VerifyUsernameResult> {
-  switch (platform) {
-    case 'twitter':
-      return verifyTwitterUsername(username);
-    case 'linkedin':
-      return verifyLinkedInProfile(username);
-    case 'facebook':
-      return verifyFacebookPage(username);
-    case 'instagram':
-      return verifyInstagramAccount(username);
-    default:
-      return {
-        exists: false,
-        error: `Platform ${platform} is not supported for verification`,
-      };
-  }
-}
@@ -0,0 +1,54 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { checkAccount, type CheckedAccount } from "./accountHealth.ts";
+import type { AdminClient } from "./supabaseAdmin.ts";
+
+// The token never needs refreshing, so the check does not touch the database.
+const admin = {} as AdminClient;
+
+const account: CheckedAccount = {
+  id: "account-1",
+  platform: "twitter",
+  instance_url: null,
+  access_token: "token",
+  refresh_token: null,
+  token_expires_at: null,
+  health_state: "healthy",
+  health_error: null,
+};
+
+function stubStatus(status: number): void {
+  vi.stubGlobal("fetch", vi.fn(async () => new Response("{}", { status })));
+}
+
+describe("checkAccount", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("marks an X account revoked when the identity call is rejected with 401", async () => {
+    stubStatus(401);
+
+    const outcome = await checkAccount(admin, account);
+
+    expect(outcome.state).toBe("revoked");
+    expect(outcome.error).toBe("Failed to fetch account info from twitter");
+  });
+
+  it("keeps the previous state when X rate limits the identity call", async () => {
+    stubStatus(429);
+
+    const outcome = await checkAccount(admin, { ...account, health_state: "expiring", health_error: "Expires soon" });
+
+    expect(outcome).toEqual({ id: "account-1", state: "expiring", error: "Expires soon" });
+  });
+
+  it("marks an X account healthy when the identity call succeeds", async () => {
+    vi.stubGlobal("fetch", vi.fn(async () =>
+      new Response(JSON.stringify({ data: { id: "1", name: "Brand", username: "brand" } }), { status: 200 })
+    ));
+
+    const outcome = await checkAccount(admin, account);
+
+    expect(outcome).toEqual({ id: "account-1", state: "healthy" });
+  });
+});
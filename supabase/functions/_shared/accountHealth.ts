@@ -0,0 +1,85 @@
+// How check-account-health judges a single connected account.
+import type { AdminClient } from "./supabaseAdmin.ts";
+import { getValidToken } from "./tokens.ts";
+import {
+  type AccountHealth,
+  getPlatformAdapter,
+  isRetryable,
+  PlatformApiError,
+} from "./platforms.ts";
+
+// The job runs every 30 minutes; tokens expiring before the run after next
+// are refreshed now rather than at publish time.
+const REFRESH_BEFORE_MS = 60 * 60 * 1000;
+// Tokens that cannot be refreshed are flagged this long before they expire,
+// leaving time to reconnect.
+const EXPIRING_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+
+export interface CheckedAccount {
+  id: string;
+  platform: string;
+  instance_url: string | null;
+  access_token: string | null;
+  refresh_token: string | null;
+  token_expires_at: string | null;
+  health_state: AccountHealth;
+  health_error: string | null;
+}
+
+export interface HealthOutcome {
+  id: string;
+  state: AccountHealth;
+  error?: string;
+}
+
+function errorMessage(err: unknown, fallback: string): string {
+  return err instanceof Error ? err.message : fallback;
+}
+
+// Network failures and rate limits say nothing about the account, so they
+// leave its state as it was until the next run.
+function isInconclusive(err: unknown): boolean {
+  return err instanceof TypeError || (err instanceof PlatformApiError && isRetryable(err.category));
+}
+
+// Refreshes the token if it is nearing expiry, then probes the account with
+// the adapter's identity call.
+export async function checkAccount(admin: AdminClient, account: CheckedAccount): Promise<HealthOutcome> {
+  const adapter = getPlatformAdapter(account.platform);
+  if (!adapter) {
+    return { id: account.id, state: "needs_reconnect", error: `Unsupported platform: ${account.platform}` };
+  }
+
+  let accessToken: string;
+  try {
+    accessToken = await getValidToken(admin, account, REFRESH_BEFORE_MS);
+  } catch (err) {
+    if (isInconclusive(err)) {
+      return { id: account.id, state: account.health_state, error: account.health_error ?? undefined };
+    }
+    return { id: account.id, state: "needs_reconnect", error: errorMessage(err, "Failed to refresh access token") };
+  }
+
+  try {
+    await adapter.fetchProfile(accessToken, account.instance_url ?? undefined);
+  } catch (err) {
+    if (isInconclusive(err)) {
+      return { id: account.id, state: account.health_state, error: account.health_error ?? undefined };
+    }
+    // The token is current, so a rejection means access was withdrawn.
+    const revoked = err instanceof PlatformApiError && err.category === "auth";
+    return {
+      id: account.id,
+      state: revoked ? "revoked" : "needs_reconnect",
+      error: errorMessage(err, "Failed to reach the account"),
+    };
+  }
+
+  // A refresh above moved the expiry of refreshable tokens forward; what is
+  // still close to expiring can only be renewed by reconnecting.
+  const expiring = !account.refresh_token
+    && account.token_expires_at !== null
+    && new Date(account.token_expires_at).getTime() - Date.now() < EXPIRING_WINDOW_MS;
+
+  return { id: account.id, state: expiring ? "expiring" : "healthy" };
+}
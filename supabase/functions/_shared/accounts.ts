@@ -0,0 +1,88 @@
+import type { AdminClient } from "./supabaseAdmin.ts";
+import type { AccountProfile } from "./platforms.ts";
+import { encryptOptionalToken, encryptToken } from "./tokenCrypto.ts";
+
+export interface AccountRow extends AccountProfile {
+  accessToken: string;
+  refreshToken: string | null;
+  expiresAt: string | null;
+  instanceUrl?: string | null;
+}
+
+// Every connect path saves through here, so tokens are always encrypted on
+// the way in. Accounts are keyed on the platform's own id: one user can
+// connect any number of handles or Pages per platform and reconnecting one
+// updates its row.
+export async function saveAccounts(
+  admin: AdminClient,
+  userId: string,
+  platform: string,
+  rows: AccountRow[]
+): Promise<AccountProfile[]> {
+  // Rows saved before accounts were keyed on the platform's id carry their
+  // handle as the id; adopt them so reconnecting does not add a second row.
+  // A failed adoption would leave the upsert below adding that second row.
+  for (const row of rows) {
+    const { error } = await admin
+      .from("social_accounts")
+      .update({ external_account_id: row.id })
+      .eq("user_id", userId)
+      .eq("platform", platform)
+      .eq("external_account_id", row.handle);
+
+    if (error) {
+      throw new Error(`Failed to update existing account connection: ${error.message}`);
+    }
+  }
+
+  const records = await Promise.all(rows.map(async (row) => ({
+    user_id: userId,
+    platform,
+    external_account_id: row.id,
+    account_name: row.name,
+    account_handle: row.handle,
+    is_connected: true,
+    access_token: await encryptToken(row.accessToken),
+    refresh_token: await encryptOptionalToken(row.refreshToken),
+    token_expires_at: row.expiresAt,
+    instance_url: row.instanceUrl ?? null,
+    // The platform just accepted these credentials.
+    health_state: "healthy",
+    health_error: null,
+    health_checked_at: new Date().toISOString(),
+    updated_at: new Date().toISOString(),
+  })));
+
+  const { error } = await admin
+    .from("social_accounts")
+    .upsert(records, {
+      onConflict: "user_id,platform,external_account_id",
+    });
+
+  if (error) {
+    throw new Error(`Failed to save account connection: ${error.message}`);
+  }
+
+  return rows.map(({ id, name, handle }) => ({ id, name, handle }));
+}
+
+// Publishing found the account's credentials rejected; flag it now rather
+// than waiting for the next check-account-health run.
+export async function markNeedsReconnect(
+  admin: AdminClient,
+  accountId: string,
+  error: string | undefined
+): Promise<void> {
+  const { error: updateError } = await admin
+    .from("social_accounts")
+    .update({
+      health_state: "needs_reconnect",
+      health_error: error ?? null,
+      health_checked_at: new Date().toISOString(),
+    })
+    .eq("id", accountId);
+
+  if (updateError) {
+    console.error("Failed to record account health:", accountId, updateError);
+  }
+}
@@ -0,0 +1,3 @@
+// The per-platform publishing code lives with the web app so both sides post
+// through exactly the same requests.
+export * from "../../../src/services/platforms/index.ts";
@@ -0,0 +1,43 @@
+import type { AdminClient } from "./supabaseAdmin.ts";
+import { type PublicationStore, UNIQUE_VIOLATION } from "./platforms.ts";
+
+export function publicationStore(admin: AdminClient): PublicationStore {
+  return {
+    async insert(record) {
+      const { data, error } = await admin
+        .from("post_publications")
+        .insert(record)
+        .select("id")
+        .single();
+
+      if (error?.code === UNIQUE_VIOLATION) {
+        return null;
+      }
+      if (error) {
+        throw new Error(`Failed to record publication: ${error.message}`);
+      }
+      return data.id;
+    },
+
+    async findByKey(idempotencyKey) {
+      const { data } = await admin
+        .from("post_publications")
+        .select("id, status, external_post_id, permalink, thread_post_ids, attempt, attempted_at")
+        .eq("idempotency_key", idempotencyKey)
+        .in("status", ["pending", "published"])
+        .maybeSingle();
+      return data;
+    },
+
+    async update(id, record) {
+      const { error } = await admin
+        .from("post_publications")
+        .update(record)
+        .eq("id", id);
+
+      if (error) {
+        console.error("Failed to record publication:", id, error);
+      }
+    },
+  };
+}
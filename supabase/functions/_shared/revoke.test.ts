@@ -0,0 +1,64 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { type DisconnectedAccount, revokeAccess } from "./revoke.ts";
+import type { AdminClient } from "./supabaseAdmin.ts";
+
+// Only instance-based platforms read from the database.
+const admin = {} as AdminClient;
+
+const account = (platform: string): DisconnectedAccount => ({
+  id: "account-1",
+  platform,
+  account_handle: "@brand",
+  external_account_id: "104000000000001",
+  instance_url: null,
+  access_token: "token",
+  refresh_token: null,
+});
+
+describe("revokeAccess", () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.stubGlobal("Deno", { env: { get: () => "client" } });
+    fetchMock = vi.fn(async () => new Response("{}", { status: 200 }));
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it("reports a revoked token when the provider accepts the revocation", async () => {
+    await expect(revokeAccess(admin, account("twitter"))).resolves.toEqual({ revoked: true });
+    expect(fetchMock).toHaveBeenCalledWith("https://api.twitter.com/2/oauth2/revoke", expect.anything());
+  });
+
+  it("reports the provider's refusal", async () => {
+    fetchMock.mockResolvedValue(new Response("{}", { status: 400 }));
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    await expect(revokeAccess(admin, account("twitter"))).resolves.toEqual({
+      revoked: false,
+      revokeError: "Failed to revoke access",
+    });
+  });
+
+  it("does not report a Facebook Page as revoked and says where to remove the app", async () => {
+    const result = await revokeAccess(admin, account("facebook"));
+
+    expect(result.revoked).toBe(false);
+    expect(result.revokeManually).toMatch(/Business integrations/);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it.each(["instagram", "threads", "telegram", "discord"])(
+    "does not report %s as revoked when it has no revoke endpoint",
+    async (platform) => {
+      const result = await revokeAccess(admin, account(platform));
+
+      expect(result.revoked).toBe(false);
+      expect(result.revokeManually).toBeTruthy();
+    }
+  );
+});
@@ -0,0 +1,69 @@
+// Withdraws the app's access at the provider before disconnect-account
+// drops the account's tokens.
+import type { AdminClient } from "./supabaseAdmin.ts";
+import { clientCredentials } from "./tokens.ts";
+import { decryptOptionalToken, decryptToken } from "./tokenCrypto.ts";
+import { getPlatformAdapter } from "./platforms.ts";
+
+export interface DisconnectedAccount {
+  id: string;
+  platform: string;
+  account_handle: string;
+  external_account_id: string;
+  instance_url: string | null;
+  access_token: string | null;
+  refresh_token: string | null;
+}
+
+// Instance-based platforms revoke with the client registered with the
+// account's instance by mastodon-oauth.
+async function revokeClient(admin: AdminClient, account: DisconnectedAccount) {
+  if (!getPlatformAdapter(account.platform)?.oauth?.instanceBased) {
+    return clientCredentials(account.platform);
+  }
+
+  const { data: app } = await admin
+    .from("mastodon_apps")
+    .select("client_id, client_secret")
+    .eq("instance_url", account.instance_url ?? "")
+    .limit(1)
+    .maybeSingle();
+
+  if (!app) {
+    throw new Error("The app is no longer registered with this server");
+  }
+  return { clientId: app.client_id, clientSecret: app.client_secret };
+}
+
+// Returned to the app as the disconnect-account response.
+export interface Revocation {
+  revoked: boolean;
+  // Why the provider refused.
+  revokeError?: string;
+  // Where to withdraw access on networks that cannot revoke through their API.
+  revokeManually?: string;
+}
+
+export async function revokeAccess(admin: AdminClient, account: DisconnectedAccount): Promise<Revocation> {
+  const adapter = getPlatformAdapter(account.platform);
+  if (!adapter || !account.access_token) {
+    return { revoked: false };
+  }
+
+  try {
+    const outcome = await adapter.revoke({
+      accessToken: await decryptToken(account.access_token),
+      refreshToken: await decryptOptionalToken(account.refresh_token) ?? undefined,
+      client: await revokeClient(admin, account),
+      account: {
+        externalId: account.external_account_id,
+        handle: account.account_handle,
+        instanceUrl: account.instance_url ?? undefined,
+      },
+    });
+    return outcome.revoked ? { revoked: true } : { revoked: false, revokeManually: outcome.manual };
+  } catch (err) {
+    console.error("Failed to revoke access:", account.id, err);
+    return { revoked: false, revokeError: err instanceof Error ? err.message : "Failed to revoke access" };
+  }
+}
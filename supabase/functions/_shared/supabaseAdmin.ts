@@ -0,0 +1,16 @@
+import { createClient } from "npm:@supabase/supabase-js@2";
+
+export function createAdminClient() {
+  return createClient(
+    Deno.env.get("SUPABASE_URL") ?? "",
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+    {
+      auth: {
+        persistSession: false,
+        autoRefreshToken: false,
+      },
+    }
+  );
+}
+
+export type AdminClient = ReturnType<typeof createAdminClient>;
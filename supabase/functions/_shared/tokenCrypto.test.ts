@@ -0,0 +1,54 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+const k1 = `k1:${btoa("a".repeat(32))}`;
+const k2 = `k2:${btoa("b".repeat(32))}`;
+
+// The keyring is read once per module instance, so each key setup gets a
+// fresh import.
+async function withKeys(keys: string) {
+  vi.stubGlobal("Deno", { env: { get: () => keys } });
+  vi.resetModules();
+  return await import("./tokenCrypto.ts");
+}
+
+describe("tokenCrypto", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("decrypts what it encrypts", async () => {
+    const { decryptToken, encryptToken } = await withKeys(k1);
+
+    const stored = await encryptToken("secret-token");
+
+    expect(stored).toMatch(/^enc:k1:/);
+    expect(stored).not.toContain("secret-token");
+    expect(await decryptToken(stored)).toBe("secret-token");
+  });
+
+  it("returns tokens saved before encryption as they are", async () => {
+    const { decryptToken, needsReencryption } = await withKeys(k1);
+
+    expect(await decryptToken("plain-token")).toBe("plain-token");
+    expect(await needsReencryption("plain-token")).toBe(true);
+  });
+
+  it("decrypts with an older key after a new one is put in front", async () => {
+    const stored = await (await withKeys(k1)).encryptToken("secret-token");
+    const { decryptToken, encryptToken, needsReencryption } = await withKeys(`${k2},${k1}`);
+
+    expect(await decryptToken(stored)).toBe("secret-token");
+    expect(await needsReencryption(stored)).toBe(true);
+
+    const reencrypted = await encryptToken(await decryptToken(stored));
+    expect(reencrypted).toMatch(/^enc:k2:/);
+    expect(await needsReencryption(reencrypted)).toBe(false);
+  });
+
+  it("refuses a token encrypted with a key that was dropped", async () => {
+    const stored = await (await withKeys(k1)).encryptToken("secret-token");
+    const { decryptToken } = await withKeys(k2);
+
+    await expect(decryptToken(stored)).rejects.toThrow('unknown key "k1"');
+  });
+});
@@ -0,0 +1,100 @@
+// Social tokens are stored as enc:<key id>:<iv>:<ciphertext>, encrypted with
+// AES-GCM under a key from the TOKEN_ENCRYPTION_KEYS secret, a comma
+// separated list of <key id>:<base64 32-byte key>. The first key encrypts;
+// the rest only decrypt, so a new key can be put in front and the old one
+// dropped once rotate-token-keys has re-encrypted everything.
+const PREFIX = "enc";
+
+interface TokenKey {
+  id: string;
+  key: CryptoKey;
+}
+
+let keyring: Promise<TokenKey[]> | null = null;
+
+function toBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+function fromBase64(value: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+}
+
+function loadKeys(): Promise<TokenKey[]> {
+  keyring ??= Promise.all(
+    (Deno.env.get("TOKEN_ENCRYPTION_KEYS") ?? "")
+      .split(",")
+      .map((entry) => entry.trim())
+      .filter(Boolean)
+      .map(async (entry) => {
+        const [id, secret] = entry.split(":");
+        const raw = fromBase64(secret ?? "");
+        if (!id || raw.length !== 32) {
+          throw new Error(`Token encryption key "${id}" must be a base64 encoded 32-byte key`);
+        }
+        return {
+          id,
+          key: await crypto.subtle.importKey("raw", raw, "AES-GCM", false, ["encrypt", "decrypt"]),
+        };
+      })
+  );
+  return keyring;
+}
+
+async function currentKey(): Promise<TokenKey> {
+  const [key] = await loadKeys();
+  if (!key) {
+    throw new Error("TOKEN_ENCRYPTION_KEYS is not set");
+  }
+  return key;
+}
+
+export async function encryptToken(token: string): Promise<string> {
+  const { id, key } = await currentKey();
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv },
+    key,
+    new TextEncoder().encode(token)
+  );
+  return [PREFIX, id, toBase64(iv), toBase64(new Uint8Array(ciphertext))].join(":");
+}
+
+export async function encryptOptionalToken(token: string | null): Promise<string | null> {
+  return token ? await encryptToken(token) : null;
+}
+
+// Tokens saved before encryption was introduced are returned as they are
+// until rotate-token-keys encrypts them.
+export async function decryptToken(stored: string): Promise<string> {
+  const [prefix, keyId, iv, ciphertext] = stored.split(":");
+  if (prefix !== PREFIX || ciphertext === undefined) {
+    return stored;
+  }
+
+  const entry = (await loadKeys()).find((key) => key.id === keyId);
+  if (!entry) {
+    throw new Error(`Token was encrypted with unknown key "${keyId}"`);
+  }
+
+  const plaintext = await crypto.subtle.decrypt(
+    { name: "AES-GCM", iv: fromBase64(iv) },
+    entry.key,
+    fromBase64(ciphertext)
+  );
+  return new TextDecoder().decode(plaintext);
+}
+
+export async function decryptOptionalToken(stored: string | null): Promise<string | null> {
+  return stored ? await decryptToken(stored) : null;
+}
+
+// True for tokens that are still plain text or were encrypted with a key
+// other than the current one.
+export async function needsReencryption(stored: string | null): Promise<boolean> {
+  if (!stored) {
+    return false;
+  }
+  const [prefix, keyId] = stored.split(":");
+  return prefix !== PREFIX || keyId !== (await currentKey()).id;
+}
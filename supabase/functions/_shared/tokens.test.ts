@@ -0,0 +1,92 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { AdminClient } from "./supabaseAdmin.ts";
+import { getValidToken, type StoredAccount } from "./tokens.ts";
+
+const inAnHour = () => new Date(Date.now() + 60 * 60 * 1000).toISOString();
+const aMinuteAgo = () => new Date(Date.now() - 60 * 1000).toISOString();
+
+// Tokens saved before encryption pass through decryptToken as they are.
+const expired = (): StoredAccount => ({
+  id: "account-1",
+  platform: "twitter",
+  access_token: "old-access",
+  refresh_token: "old-refresh",
+  token_expires_at: aMinuteAgo(),
+});
+
+// Answers claim_token_refresh with `claimed` and each token read with the
+// next of `reads`, recording every update.
+function fakeAdmin(claimed: boolean, reads: StoredAccount[]) {
+  const updates: Record<string, unknown>[] = [];
+  const rpc = vi.fn(async () => ({ data: claimed, error: null }));
+  const admin = {
+    rpc,
+    from: () => ({
+      select: () => ({
+        eq: () => ({
+          single: async () => ({ data: reads.shift(), error: null }),
+        }),
+      }),
+      update: (values: Record<string, unknown>) => {
+        updates.push(values);
+        return { eq: async () => ({ error: null }) };
+      },
+    }),
+  };
+  return { admin: admin as unknown as AdminClient, rpc, updates };
+}
+
+describe("getValidToken", () => {
+  beforeEach(() => {
+    vi.stubGlobal("Deno", {
+      env: {
+        get: (name: string) => name === "TOKEN_ENCRYPTION_KEYS" ? `k1:${btoa("a".repeat(32))}` : "",
+      },
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("returns a token that is not about to expire without touching the database", async () => {
+    const token = await getValidToken({} as AdminClient, { ...expired(), token_expires_at: inAnHour() });
+
+    expect(token).toBe("old-access");
+  });
+
+  it("refreshes and stores the new tokens when it wins the claim", async () => {
+    const fetch = vi.fn(async () => Response.json({
+      access_token: "new-access",
+      refresh_token: "new-refresh",
+      expires_in: 7200,
+    }));
+    vi.stubGlobal("fetch", fetch);
+    const { admin, rpc, updates } = fakeAdmin(true, [expired()]);
+
+    const token = await getValidToken(admin, expired());
+
+    expect(token).toBe("new-access");
+    expect(rpc).toHaveBeenCalledWith("claim_token_refresh", expect.objectContaining({ account_id: "account-1" }));
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(updates).toEqual([expect.objectContaining({
+      access_token: expect.stringMatching(/^enc:k1:/),
+      refresh_token: expect.stringMatching(/^enc:k1:/),
+      token_refresh_started_at: null,
+    })]);
+  });
+
+  it("waits for the refresh another caller claimed instead of refreshing again", async () => {
+    const fetch = vi.fn();
+    vi.stubGlobal("fetch", fetch);
+    const refreshed = { ...expired(), access_token: "their-access", token_expires_at: inAnHour() };
+    const { admin, rpc, updates } = fakeAdmin(false, [expired(), refreshed]);
+
+    const token = await getValidToken(admin, expired());
+
+    expect(token).toBe("their-access");
+    expect(rpc).toHaveBeenCalledTimes(2);
+    expect(fetch).not.toHaveBeenCalled();
+    expect(updates).toEqual([]);
+  });
+});
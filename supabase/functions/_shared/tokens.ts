@@ -0,0 +1,217 @@
+import type { AdminClient } from "./supabaseAdmin.ts";
+import { apiError, clientAuthentication, getPlatformAdapter, PlatformApiError } from "./platforms.ts";
+import { decryptToken, encryptOptionalToken, encryptToken } from "./tokenCrypto.ts";
+
+// Tokens as stored, encrypted with tokenCrypto.
+export interface StoredAccount {
+  id: string;
+  platform: string;
+  access_token: string | null;
+  refresh_token: string | null;
+  token_expires_at: string | null;
+  instance_url?: string | null;
+}
+
+interface RefreshedTokens {
+  access_token: string;
+  refresh_token: string | null;
+  token_expires_at: string | null;
+}
+
+// Client credentials come from function secrets named <PLATFORM>_CLIENT_ID
+// and <PLATFORM>_CLIENT_SECRET.
+export function clientCredentials(platform: string) {
+  const prefix = platform.toUpperCase();
+  return {
+    clientId: Deno.env.get(`${prefix}_CLIENT_ID`) ?? "",
+    clientSecret: Deno.env.get(`${prefix}_CLIENT_SECRET`) ?? "",
+  };
+}
+
+// Session-based platforms refresh through their adapter, and renewable
+// long-lived tokens are traded in for new ones; everything else uses the
+// OAuth refresh_token grant.
+async function refreshTokens(
+  account: StoredAccount,
+  refreshToken: string
+): Promise<RefreshedTokens> {
+  const adapter = getPlatformAdapter(account.platform);
+
+  if (adapter?.refreshSession) {
+    const session = await adapter.refreshSession(refreshToken, account.instance_url ?? undefined);
+    return {
+      access_token: session.accessToken,
+      refresh_token: session.refreshToken,
+      token_expires_at: session.expiresAt,
+    };
+  }
+
+  if (!adapter?.oauth) {
+    throw new Error("Token expired and no refresh token available. Please reconnect the account.");
+  }
+
+  const renew = adapter.oauth.longLivedToken?.refresh;
+  if (renew) {
+    const params = new URLSearchParams({ grant_type: renew.grantType, access_token: refreshToken });
+    const response = await fetch(`${renew.url}?${params.toString()}`);
+    if (!response.ok) {
+      throw apiError(response, "Failed to renew access token. Please reconnect the account.");
+    }
+
+    const tokens = await response.json();
+    return {
+      access_token: tokens.access_token,
+      refresh_token: tokens.access_token,
+      token_expires_at: tokens.expires_in
+        ? new Date(Date.now() + tokens.expires_in * 1000).toISOString()
+        : null,
+    };
+  }
+
+  const { headers, params } = clientAuthentication(adapter.oauth, clientCredentials(account.platform));
+  const response = await fetch(adapter.oauth.tokenUrl, {
+    method: "POST",
+    headers: {
+      ...headers,
+      "Content-Type": "application/x-www-form-urlencoded",
+    },
+    body: new URLSearchParams({
+      grant_type: "refresh_token",
+      refresh_token: refreshToken,
+      ...params,
+    }).toString(),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error("Token refresh failed:", account.id, response.status, errorText);
+    // Classified like any other platform error: a rejected grant is final,
+    // while an outage is worth trying again.
+    throw apiError(response, "Failed to refresh access token. Please reconnect the account.");
+  }
+
+  const tokens = await response.json();
+  return {
+    access_token: tokens.access_token,
+    refresh_token: tokens.refresh_token || null,
+    token_expires_at: tokens.expires_in
+      ? new Date(Date.now() + tokens.expires_in * 1000).toISOString()
+      : null,
+  };
+}
+
+const REFRESH_BUFFER_MS = 5 * 60 * 1000;
+// How long a claim on an account's refresh holds before it is considered
+// abandoned; matches the claim_token_refresh default.
+const REFRESH_LEASE_SECONDS = 30;
+const REFRESH_POLL_MS = 500;
+
+const TOKEN_COLUMNS = "id, platform, access_token, refresh_token, token_expires_at, instance_url";
+
+function needsRefresh(account: StoredAccount, refreshBeforeMs: number): boolean {
+  return !!account.token_expires_at
+    && Date.now() >= new Date(account.token_expires_at).getTime() - refreshBeforeMs;
+}
+
+async function loadTokens(admin: AdminClient, accountId: string): Promise<StoredAccount> {
+  const { data, error } = await admin
+    .from("social_accounts")
+    .select(TOKEN_COLUMNS)
+    .eq("id", accountId)
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to load account tokens: ${error.message}`);
+  }
+  return data as StoredAccount;
+}
+
+async function claimRefresh(admin: AdminClient, accountId: string): Promise<boolean> {
+  const { data, error } = await admin.rpc("claim_token_refresh", {
+    account_id: accountId,
+    lease_seconds: REFRESH_LEASE_SECONDS,
+  });
+
+  if (error) {
+    throw new Error(`Failed to claim token refresh: ${error.message}`);
+  }
+  return data === true;
+}
+
+// Runs while holding the account's refresh claim. The tokens are read again
+// first: the caller's copy may predate a refresh that finished just before
+// the claim, and its refresh token would already have been rotated out.
+async function refreshClaimed(
+  admin: AdminClient,
+  accountId: string,
+  refreshBeforeMs: number
+): Promise<string> {
+  try {
+    const account = await loadTokens(admin, accountId);
+    if (!account.access_token || !account.refresh_token || !needsRefresh(account, refreshBeforeMs)) {
+      await admin.from("social_accounts").update({ token_refresh_started_at: null }).eq("id", accountId);
+      return await getValidToken(admin, account, refreshBeforeMs);
+    }
+
+    const tokens = await refreshTokens(account, await decryptToken(account.refresh_token));
+
+    const { error } = await admin
+      .from("social_accounts")
+      .update({
+        access_token: await encryptToken(tokens.access_token),
+        refresh_token: await encryptOptionalToken(tokens.refresh_token) ?? account.refresh_token,
+        token_expires_at: tokens.token_expires_at,
+        token_refresh_started_at: null,
+      })
+      .eq("id", accountId);
+
+    if (error) {
+      // The platform may already have rotated the old refresh token, so
+      // there is nothing to fall back to.
+      throw new Error(`Failed to save refreshed tokens: ${error.message}`);
+    }
+    return tokens.access_token;
+  } catch (err) {
+    await admin.from("social_accounts").update({ token_refresh_started_at: null }).eq("id", accountId);
+    throw err;
+  }
+}
+
+// Returns the account's decrypted access token, refreshing it first when it
+// expires within `refreshBeforeMs`. Every edge function refreshes through
+// here: one caller claims the refresh and the others wait for its tokens, so
+// a rotating refresh token is only ever spent once.
+export async function getValidToken(
+  admin: AdminClient,
+  account: StoredAccount,
+  refreshBeforeMs = REFRESH_BUFFER_MS
+): Promise<string> {
+  // Waiting a little past the lease lets a waiter take over a claim whose
+  // holder died.
+  const deadline = Date.now() + (REFRESH_LEASE_SECONDS + 5) * 1000;
+  let current = account;
+
+  while (true) {
+    if (!current.access_token) {
+      throw new Error("Account has no access token. Please reconnect the account.");
+    }
+
+    if (!needsRefresh(current, refreshBeforeMs)) {
+      return await decryptToken(current.access_token);
+    }
+
+    if (!current.refresh_token) {
+      throw new Error("Token expired and no refresh token available. Please reconnect the account.");
+    }
+
+    if (await claimRefresh(admin, current.id)) {
+      return await refreshClaimed(admin, current.id, refreshBeforeMs);
+    }
+
+    if (Date.now() >= deadline) {
+      throw new PlatformApiError("Timed out waiting for the account's tokens to be refreshed", "transient");
+    }
+    await new Promise((resolve) => setTimeout(resolve, REFRESH_POLL_MS));
+    current = await loadTokens(admin, current.id);
+  }
+}
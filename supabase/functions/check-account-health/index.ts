@@ -0,0 +1,55 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createAdminClient } from "../_shared/supabaseAdmin.ts";
+import { checkAccount, type CheckedAccount, type HealthOutcome } from "../_shared/accountHealth.ts";
+
+const BATCH_SIZE = 50;
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+Deno.serve(async (req: Request) => {
+  const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+  if (!serviceRoleKey || req.headers.get("Authorization") !== `Bearer ${serviceRoleKey}`) {
+    return jsonResponse({ error: "Unauthorized" }, 401);
+  }
+
+  const admin = createAdminClient();
+
+  // Least recently checked first, so every account comes round in turn.
+  const { data: accounts, error } = await admin
+    .from("social_accounts")
+    .select("id, platform, instance_url, access_token, refresh_token, token_expires_at, health_state, health_error")
+    .eq("is_connected", true)
+    .order("health_checked_at", { ascending: true, nullsFirst: true })
+    .limit(BATCH_SIZE);
+
+  if (error) {
+    console.error("Failed to load social accounts:", error);
+    return jsonResponse({ error: error.message }, 500);
+  }
+
+  const outcomes: HealthOutcome[] = [];
+  for (const account of (accounts ?? []) as CheckedAccount[]) {
+    const outcome = await checkAccount(admin, account);
+
+    const { error: updateError } = await admin
+      .from("social_accounts")
+      .update({
+        health_state: outcome.state,
+        health_error: outcome.error ?? null,
+        health_checked_at: new Date().toISOString(),
+      })
+      .eq("id", account.id);
+
+    if (updateError) {
+      console.error("Failed to record account health:", account.id, updateError);
+    }
+    outcomes.push(outcome);
+  }
+
+  return jsonResponse({ checked: outcomes.length, accounts: outcomes });
+});
@@ -0,0 +1,92 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createAdminClient } from "../_shared/supabaseAdmin.ts";
+import { saveAccounts } from "../_shared/accounts.ts";
+import { getPlatformAdapter } from "../_shared/platforms.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey",
+};
+
+// Connect paths for platforms without OAuth; the credentials are checked
+// against the platform and the resulting tokens saved here, so they never
+// reach the browser again.
+// password: Bluesky app passwords, exchanged for a session right away; only
+//   the session tokens are saved.
+// destination: Telegram channels and Discord webhooks.
+interface RequestBody {
+  action: "password" | "destination";
+  platform: string;
+  identifier?: string;
+  password?: string;
+  values?: Record<string, string>;
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { status: 200, headers: corsHeaders });
+  }
+
+  const admin = createAdminClient();
+
+  const jwt = req.headers.get("Authorization")?.replace("Bearer ", "") ?? "";
+  const { data: { user } } = await admin.auth.getUser(jwt);
+  if (!user) {
+    return jsonResponse({ error: "Unauthorized" }, 401);
+  }
+
+  try {
+    const body: RequestBody = await req.json();
+    const adapter = getPlatformAdapter(body.platform);
+
+    if (body.action === "password") {
+      if (!adapter?.createSession) {
+        return jsonResponse({ error: `${body.platform} does not support password sign-in` }, 400);
+      }
+      if (!body.identifier || !body.password) {
+        return jsonResponse({ error: "identifier and password are required" }, 400);
+      }
+
+      const session = await adapter.createSession(body.identifier, body.password);
+      const [account] = await saveAccounts(admin, user.id, body.platform, [{
+        id: session.id,
+        name: session.name,
+        handle: session.handle,
+        accessToken: session.accessToken,
+        refreshToken: session.refreshToken,
+        expiresAt: session.expiresAt,
+        instanceUrl: session.instanceUrl,
+      }]);
+      return jsonResponse({ account });
+    }
+
+    if (body.action === "destination") {
+      if (!adapter?.destination) {
+        return jsonResponse({ error: `${body.platform} is not a posting destination` }, 400);
+      }
+
+      const destination = await adapter.destination.connect(body.values ?? {});
+      const [account] = await saveAccounts(admin, user.id, body.platform, [{
+        ...destination,
+        refreshToken: null,
+        expiresAt: null,
+      }]);
+      return jsonResponse({ account });
+    }
+
+    return jsonResponse({ error: "Invalid request" }, 400);
+  } catch (err) {
+    console.error("connect-account failed:", err);
+    return jsonResponse({
+      error: err instanceof Error ? err.message : "Failed to connect account",
+    }, 500);
+  }
+});
@@ -0,0 +1,87 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createAdminClient } from "../_shared/supabaseAdmin.ts";
+import { revokeAccess } from "../_shared/revoke.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey",
+};
+
+// Both actions revoke the app's access at the provider first.
+// disconnect: delete the account's tokens but keep the row, so its post
+//   history and analytics stay; reconnecting the same account picks it up.
+// remove: delete the account along with its publications.
+// A provider refusing to revoke, or having no way to, does not stop either;
+// the response says so the user can withdraw access from the network's own
+// settings.
+interface RequestBody {
+  action: "disconnect" | "remove";
+  accountId: string;
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { status: 200, headers: corsHeaders });
+  }
+
+  const admin = createAdminClient();
+
+  const jwt = req.headers.get("Authorization")?.replace("Bearer ", "") ?? "";
+  const { data: { user } } = await admin.auth.getUser(jwt);
+  if (!user) {
+    return jsonResponse({ error: "Unauthorized" }, 401);
+  }
+
+  try {
+    const body: RequestBody = await req.json();
+    if (body.action !== "disconnect" && body.action !== "remove") {
+      return jsonResponse({ error: "Invalid request" }, 400);
+    }
+
+    const { data: account } = await admin
+      .from("social_accounts")
+      .select("id, platform, account_handle, external_account_id, instance_url, access_token, refresh_token")
+      .eq("id", body.accountId ?? "")
+      .eq("user_id", user.id)
+      .maybeSingle();
+
+    if (!account) {
+      return jsonResponse({ error: "Account not found" }, 404);
+    }
+
+    const revocation = await revokeAccess(admin, account);
+
+    const { error } = body.action === "remove"
+      ? await admin.from("social_accounts").delete().eq("id", account.id)
+      : await admin
+        .from("social_accounts")
+        .update({
+          is_connected: false,
+          access_token: null,
+          refresh_token: null,
+          token_expires_at: null,
+          token_refresh_started_at: null,
+          updated_at: new Date().toISOString(),
+        })
+        .eq("id", account.id);
+
+    if (error) {
+      throw new Error(`Failed to disconnect account: ${error.message}`);
+    }
+
+    return jsonResponse(revocation);
+  } catch (err) {
+    console.error("disconnect-account failed:", err);
+    return jsonResponse({
+      error: err instanceof Error ? err.message : "Request failed",
+    }, 500);
+  }
+});
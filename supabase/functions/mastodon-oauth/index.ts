@@ -0,0 +1,198 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createAdminClient, type AdminClient } from "../_shared/supabaseAdmin.ts";
+import { getPlatformAdapter, normalizeInstanceUrl } from "../_shared/platforms.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey",
+};
+
+// register: find or create the OAuth client for an instance and return its
+//   public client id, so the browser can start the PKCE flow. The code is
+//   exchanged by the oauth-token function with the same registration; the
+//   client secret never leaves the server.
+interface RequestBody {
+  action: "register";
+  instanceUrl: string;
+  redirectUri: string;
+}
+
+interface MastodonApp {
+  client_id: string;
+  client_secret: string;
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+// Registrations are only made for the app's own Mastodon callback, on one of
+// the origins in the SITE_ORIGINS secret; any other redirect would hand the
+// authorization code to someone else.
+function isAllowedRedirect(redirectUri: string): boolean {
+  let url: URL;
+  try {
+    url = new URL(redirectUri);
+  } catch {
+    return false;
+  }
+
+  const origins = (Deno.env.get("SITE_ORIGINS") ?? "")
+    .split(",")
+    .map((origin) => origin.trim().replace(/\/$/, ""))
+    .filter(Boolean);
+  return origins.includes(url.origin)
+    && url.pathname === "/auth/callback/mastodon"
+    && !url.search
+    && !url.hash;
+}
+
+function isPrivateIPv4(address: string): boolean {
+  const [a, b] = address.split(".").map(Number);
+  return a === 0
+    || a === 10
+    || a === 127
+    || (a === 100 && b >= 64 && b < 128)
+    || (a === 169 && b === 254)
+    || (a === 172 && b >= 16 && b < 32)
+    || (a === 192 && b === 168);
+}
+
+function isPrivateIPv6(address: string): boolean {
+  const lower = address.toLowerCase();
+  const dotted = lower.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (dotted) {
+    return isPrivateIPv4(dotted[1]);
+  }
+  const mapped = lower.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+  if (mapped) {
+    const [high, low] = [parseInt(mapped[1], 16), parseInt(mapped[2], 16)];
+    return isPrivateIPv4(`${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`);
+  }
+  // Unspecified, loopback, unique local (fc00::/7) and link-local (fe80::/10).
+  return lower === "::" || lower === "::1" || /^f[cd]/.test(lower) || /^fe[89ab]/.test(lower);
+}
+
+// The instance is whatever host the user typed, and this function calls it
+// from the edge runtime; hosts that do not resolve, or resolve
+// to a loopback, private or link-local address, are refused.
+async function isPublicHost(hostname: string): Promise<boolean> {
+  if (hostname.startsWith("[")) {
+    return !isPrivateIPv6(hostname.slice(1, -1));
+  }
+  if (/^\d+\.\d+\.\d+\.\d+$/.test(hostname)) {
+    return !isPrivateIPv4(hostname);
+  }
+
+  const [v4, v6] = await Promise.all([
+    Deno.resolveDns(hostname, "A").catch(() => [] as string[]),
+    Deno.resolveDns(hostname, "AAAA").catch(() => [] as string[]),
+  ]);
+  return v4.length + v6.length > 0
+    && !v4.some(isPrivateIPv4)
+    && !v6.some(isPrivateIPv6);
+}
+
+async function findOrRegisterApp(
+  admin: AdminClient,
+  instanceUrl: string,
+  redirectUri: string
+): Promise<MastodonApp> {
+  const { data: existing } = await admin
+    .from("mastodon_apps")
+    .select("client_id, client_secret")
+    .eq("instance_url", instanceUrl)
+    .eq("redirect_uri", redirectUri)
+    .maybeSingle();
+
+  if (existing) {
+    return existing;
+  }
+
+  const response = await fetch(`${instanceUrl}/api/v1/apps`, {
+    method: "POST",
+    // A redirect could point anywhere, including the addresses checked above.
+    redirect: "error",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      client_name: "Sociable AI",
+      redirect_uris: redirectUri,
+      scopes: getPlatformAdapter("mastodon")?.oauth?.scope,
+      website: new URL(redirectUri).origin,
+    }),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Failed to register with ${instanceUrl}: ${errorText}`);
+  }
+
+  const app = await response.json();
+
+  // Two users on a new instance can race here; keep whichever row landed first.
+  const { data: saved, error } = await admin
+    .from("mastodon_apps")
+    .upsert({
+      instance_url: instanceUrl,
+      redirect_uri: redirectUri,
+      client_id: app.client_id,
+      client_secret: app.client_secret,
+    }, {
+      onConflict: "instance_url,redirect_uri",
+      ignoreDuplicates: true,
+    })
+    .select("client_id, client_secret")
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to save Mastodon app: ${error.message}`);
+  }
+
+  return saved ?? await findOrRegisterApp(admin, instanceUrl, redirectUri);
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { status: 200, headers: corsHeaders });
+  }
+
+  const admin = createAdminClient();
+
+  const jwt = req.headers.get("Authorization")?.replace("Bearer ", "") ?? "";
+  const { data: { user } } = await admin.auth.getUser(jwt);
+  if (!user) {
+    return jsonResponse({ error: "Unauthorized" }, 401);
+  }
+
+  try {
+    const body: RequestBody = await req.json();
+    if (!body.instanceUrl || !body.redirectUri) {
+      return jsonResponse({ error: "instanceUrl and redirectUri are required" }, 400);
+    }
+
+    if (body.action !== "register") {
+      return jsonResponse({ error: "Invalid request" }, 400);
+    }
+
+    if (!isAllowedRedirect(body.redirectUri)) {
+      return jsonResponse({ error: "redirectUri is not this app's Mastodon callback" }, 400);
+    }
+
+    const instanceUrl = normalizeInstanceUrl(body.instanceUrl);
+    if (!(await isPublicHost(new URL(instanceUrl).hostname))) {
+      return jsonResponse({ error: "That Mastodon instance could not be reached" }, 400);
+    }
+
+    const app = await findOrRegisterApp(admin, instanceUrl, body.redirectUri);
+    return jsonResponse({ instanceUrl, clientId: app.client_id });
+  } catch (err) {
+    console.error("mastodon-oauth failed:", err);
+    return jsonResponse({
+      error: err instanceof Error ? err.message : "Mastodon authorization failed",
+    }, 500);
+  }
+});
@@ -0,0 +1,289 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createAdminClient, type AdminClient } from "../_shared/supabaseAdmin.ts";
+import { clientCredentials, getValidToken } from "../_shared/tokens.ts";
+import { saveAccounts } from "../_shared/accounts.ts";
+import { decryptToken, encryptToken } from "../_shared/tokenCrypto.ts";
+import {
+  clientAuthentication,
+  getPlatformAdapter,
+  normalizeInstanceUrl,
+  type OAuthSettings,
+} from "../_shared/platforms.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey",
+};
+
+// A user token kept between listing a user's Pages and connecting the ones
+// they picked.
+const PENDING_CONNECTION_TTL_MS = 15 * 60 * 1000;
+
+// exchange: trade an authorization code for tokens and save the account, or
+//   for platforms that publish as Pages, list them and keep the user token
+//   until the user picks which ones to connect.
+// connect: save the picked Pages with their own tokens.
+// refresh: refresh the tokens of one of the user's accounts if they are
+//   about to expire.
+// Tokens are written to social_accounts and never returned.
+interface RequestBody {
+  action: "exchange" | "connect" | "refresh";
+  platform?: string;
+  redirectUri?: string;
+  code?: string;
+  codeVerifier?: string;
+  instanceUrl?: string;
+  accountIds?: string[];
+  accountId?: string;
+}
+
+interface TokenResponse {
+  access_token: string;
+  refresh_token?: string;
+  expires_in?: number;
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+function expiresAtFrom(tokens: TokenResponse): string | null {
+  return tokens.expires_in
+    ? new Date(Date.now() + tokens.expires_in * 1000).toISOString()
+    : null;
+}
+
+// Instance-based platforms use the client registered with the instance by
+// mastodon-oauth when the connection started.
+async function resolveClient(
+  admin: AdminClient,
+  platform: string,
+  oauth: OAuthSettings,
+  redirectUri: string,
+  instanceUrl: string | undefined
+) {
+  if (!oauth.instanceBased) {
+    return { ...clientCredentials(platform), tokenUrl: oauth.tokenUrl };
+  }
+
+  if (!instanceUrl) {
+    throw new Error("Server not found. Please start the connection again.");
+  }
+
+  const { data: app } = await admin
+    .from("mastodon_apps")
+    .select("client_id, client_secret")
+    .eq("instance_url", instanceUrl)
+    .eq("redirect_uri", redirectUri)
+    .maybeSingle();
+
+  if (!app) {
+    throw new Error("Server not found. Please start the connection again.");
+  }
+
+  return {
+    clientId: app.client_id,
+    clientSecret: app.client_secret,
+    tokenUrl: `${instanceUrl}${oauth.tokenUrl}`,
+  };
+}
+
+async function exchangeCode(
+  admin: AdminClient,
+  platform: string,
+  oauth: OAuthSettings,
+  body: RequestBody,
+  instanceUrl: string | undefined
+): Promise<TokenResponse> {
+  const client = await resolveClient(admin, platform, oauth, body.redirectUri!, instanceUrl);
+
+  const auth = clientAuthentication(oauth, client);
+  const response = await fetch(client.tokenUrl, {
+    method: "POST",
+    headers: { ...auth.headers, "Content-Type": "application/x-www-form-urlencoded" },
+    body: new URLSearchParams({
+      grant_type: "authorization_code",
+      code: body.code!,
+      redirect_uri: body.redirectUri!,
+      ...auth.params,
+      code_verifier: body.codeVerifier!,
+    }).toString(),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Token exchange failed: ${errorText}`);
+  }
+
+  const tokens: TokenResponse = await response.json();
+  if (!oauth.longLivedToken) {
+    return tokens;
+  }
+
+  // Page tokens fetched with a short-lived Facebook user token expire just as
+  // fast, while those fetched with a long-lived one do not expire at all.
+  const { clientId, clientSecret } = clientCredentials(platform);
+  const params = new URLSearchParams({
+    grant_type: oauth.longLivedToken.grantType,
+    client_id: clientId,
+    client_secret: clientSecret,
+    [oauth.longLivedToken.tokenParam]: tokens.access_token,
+  });
+
+  const longLived = await fetch(`${oauth.longLivedToken.url}?${params.toString()}`);
+  if (!longLived.ok) {
+    const errorText = await longLived.text();
+    throw new Error(`Long-lived token exchange failed: ${errorText}`);
+  }
+
+  const longLivedTokens: TokenResponse = await longLived.json();
+  return oauth.longLivedToken.refresh
+    ? { ...longLivedTokens, refresh_token: longLivedTokens.access_token }
+    : longLivedTokens;
+}
+
+async function handleExchange(admin: AdminClient, userId: string, body: RequestBody) {
+  const platform = body.platform!;
+  const adapter = getPlatformAdapter(platform);
+  if (!adapter?.oauth) {
+    return jsonResponse({ error: `OAuth not configured for ${platform}` }, 400);
+  }
+  if (!body.code || !body.codeVerifier || !body.redirectUri) {
+    return jsonResponse({ error: "code, codeVerifier and redirectUri are required" }, 400);
+  }
+
+  const instanceUrl = body.instanceUrl ? normalizeInstanceUrl(body.instanceUrl) : undefined;
+  const tokens = await exchangeCode(admin, platform, adapter.oauth, body, instanceUrl);
+
+  if (adapter.listConnectableAccounts) {
+    const connectable = await adapter.listConnectableAccounts(tokens.access_token);
+    if (connectable.length === 0) {
+      return jsonResponse({ error: `No ${adapter.name} accounts were found that you can publish to.` }, 400);
+    }
+
+    const { error } = await admin
+      .from("oauth_pending_connections")
+      .upsert({
+        user_id: userId,
+        platform,
+        access_token: await encryptToken(tokens.access_token),
+        expires_at: new Date(Date.now() + PENDING_CONNECTION_TTL_MS).toISOString(),
+      }, {
+        onConflict: "user_id,platform",
+      });
+
+    if (error) {
+      throw new Error(`Failed to save pending connection: ${error.message}`);
+    }
+
+    return jsonResponse({
+      connectable: connectable.map(({ id, name, handle }) => ({ id, name, handle })),
+    });
+  }
+
+  const profile = await adapter.fetchProfile(tokens.access_token, instanceUrl);
+  const accounts = await saveAccounts(admin, userId, platform, [{
+    ...profile,
+    accessToken: tokens.access_token,
+    refreshToken: tokens.refresh_token || null,
+    expiresAt: expiresAtFrom(tokens),
+    instanceUrl,
+  }]);
+
+  return jsonResponse({ accounts });
+}
+
+// Page tokens from a long-lived user token never expire and cannot be
+// refreshed, so they are stored without expiry or refresh token.
+async function handleConnect(admin: AdminClient, userId: string, body: RequestBody) {
+  const platform = body.platform!;
+  const adapter = getPlatformAdapter(platform);
+  if (!adapter?.listConnectableAccounts || !body.accountIds?.length) {
+    return jsonResponse({ error: "Invalid request" }, 400);
+  }
+
+  const { data: pending } = await admin
+    .from("oauth_pending_connections")
+    .select("access_token, expires_at")
+    .eq("user_id", userId)
+    .eq("platform", platform)
+    .maybeSingle();
+
+  if (!pending || new Date(pending.expires_at).getTime() < Date.now()) {
+    return jsonResponse({ error: "This connection has expired. Please start it again." }, 400);
+  }
+
+  const connectable = await adapter.listConnectableAccounts(await decryptToken(pending.access_token));
+  const chosen = connectable.filter((account) => body.accountIds!.includes(account.id));
+
+  const accounts = await saveAccounts(admin, userId, platform, chosen.map((account) => ({
+    ...account,
+    refreshToken: null,
+    expiresAt: null,
+  })));
+
+  await admin
+    .from("oauth_pending_connections")
+    .delete()
+    .eq("user_id", userId)
+    .eq("platform", platform);
+
+  return jsonResponse({ accounts });
+}
+
+async function handleRefresh(admin: AdminClient, userId: string, body: RequestBody) {
+  const { data: account } = await admin
+    .from("social_accounts")
+    .select("id, platform, access_token, refresh_token, token_expires_at, instance_url")
+    .eq("id", body.accountId ?? "")
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (!account) {
+    return jsonResponse({ error: "Account not found" }, 404);
+  }
+
+  await getValidToken(admin, account);
+  return jsonResponse({ refreshed: true });
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { status: 200, headers: corsHeaders });
+  }
+
+  const admin = createAdminClient();
+
+  const jwt = req.headers.get("Authorization")?.replace("Bearer ", "") ?? "";
+  const { data: { user } } = await admin.auth.getUser(jwt);
+  if (!user) {
+    return jsonResponse({ error: "Unauthorized" }, 401);
+  }
+
+  try {
+    const body: RequestBody = await req.json();
+
+    if (body.action === "refresh") {
+      return await handleRefresh(admin, user.id, body);
+    }
+    if (!body.platform) {
+      return jsonResponse({ error: "platform is required" }, 400);
+    }
+    if (body.action === "exchange") {
+      return await handleExchange(admin, user.id, body);
+    }
+    if (body.action === "connect") {
+      return await handleConnect(admin, user.id, body);
+    }
+    return jsonResponse({ error: "Invalid request" }, 400);
+  } catch (err) {
+    console.error("oauth-token failed:", err);
+    return jsonResponse({
+      error: err instanceof Error ? err.message : "Authorization failed",
+    }, 500);
+  }
+});
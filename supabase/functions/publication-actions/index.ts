@@ -0,0 +1,252 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createAdminClient, type AdminClient } from "../_shared/supabaseAdmin.ts";
+import { getValidToken } from "../_shared/tokens.ts";
+import { publicationStore } from "../_shared/publicationStore.ts";
+import {
+  applyVariant,
+  firstCommentPoster,
+  getPlatformAdapter,
+  postFinder,
+  publishOnce,
+  publishToPlatform,
+  publishWithRetry,
+  resumeFrom,
+  type PlatformVariant,
+  type PostContent,
+  type PostResult,
+} from "../_shared/platforms.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey",
+};
+
+// Everything the web app does with an account's token runs here, since
+// tokens are only ever decrypted server-side.
+// publish: publish content to one of the user's accounts right away.
+// delete: delete every post a publication created.
+// edit: replace the text of a published post.
+interface RequestBody {
+  action: "publish" | "delete" | "edit";
+  accountId?: string;
+  content?: PostContent;
+  contentPostId?: string | null;
+  variants?: Record<string, PlatformVariant>;
+  publicationId?: string;
+  text?: string;
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+// `variants` holds the post's per-platform overrides; the account's platform
+// picks which one applies.
+async function publishPost(
+  admin: AdminClient,
+  userId: string,
+  body: RequestBody
+): Promise<PostResult> {
+  const { data: account } = await admin
+    .from("social_accounts")
+    .select("id, user_id, platform, account_handle, external_account_id, instance_url, access_token, refresh_token, token_expires_at")
+    .eq("id", body.accountId ?? "")
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (!account || !body.content) {
+    throw new Error("Account not found");
+  }
+
+  // The idempotency key and the publication rows hang off the content post,
+  // so it has to be one of the user's own.
+  const contentPostId = body.contentPostId ?? null;
+  if (contentPostId) {
+    const { data: contentPost } = await admin
+      .from("content_posts")
+      .select("id")
+      .eq("id", contentPostId)
+      .eq("user_id", userId)
+      .maybeSingle();
+
+    if (!contentPost) {
+      throw new Error("Content post not found");
+    }
+  }
+
+  const accessToken = await getValidToken(admin, account);
+
+  let previous = null;
+  if (contentPostId) {
+    const { data } = await admin
+      .from("post_publications")
+      .select("status, thread_post_ids")
+      .eq("content_post_id", contentPostId)
+      .eq("social_account_id", account.id)
+      .order("attempted_at", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    previous = data;
+  }
+
+  const target = {
+    userId,
+    contentPostId,
+    accountId: account.id,
+    platform: account.platform,
+  };
+
+  const platformContent = applyVariant(body.content, body.variants?.[account.platform]);
+  const accountContext = {
+    externalId: account.external_account_id,
+    handle: account.account_handle,
+    instanceUrl: account.instance_url ?? undefined,
+  };
+
+  return await publishWithRetry(
+    (resume, attempt) => publishOnce(
+      publicationStore(admin),
+      target,
+      attempt,
+      (idempotencyKey) => publishToPlatform(
+        account.platform,
+        accessToken,
+        platformContent,
+        accountContext,
+        { ...resume, idempotencyKey }
+      ),
+      postFinder(account.platform, accessToken, platformContent, accountContext),
+      firstCommentPoster(account.platform, accessToken, platformContent, accountContext)
+    ),
+    resumeFrom(previous)
+  );
+}
+
+// Loads what an action on an already published post needs: the ids it
+// created, the adapter and a valid token for the account it went to.
+async function loadPublication(admin: AdminClient, userId: string, publicationId: string) {
+  const { data: publication } = await admin
+    .from("post_publications")
+    .select("id, platform, social_account_id, external_post_id, thread_post_ids")
+    .eq("id", publicationId)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (!publication?.external_post_id) {
+    throw new Error("Publication not found");
+  }
+
+  const { data: account } = await admin
+    .from("social_accounts")
+    .select("id, platform, account_handle, external_account_id, instance_url, access_token, refresh_token, token_expires_at")
+    .eq("id", publication.social_account_id)
+    .maybeSingle();
+
+  if (!account) {
+    throw new Error("The account this was published to is no longer connected");
+  }
+
+  const adapter = getPlatformAdapter(publication.platform);
+  if (!adapter) {
+    throw new Error(`Unsupported platform: ${publication.platform}`);
+  }
+
+  return {
+    publication,
+    adapter,
+    accessToken: await getValidToken(admin, account),
+    account: {
+      externalId: account.external_account_id,
+      handle: account.account_handle,
+      instanceUrl: account.instance_url ?? undefined,
+    },
+  };
+}
+
+// Deletes every post the publication created, replies of a thread before
+// the post they answer, and marks it deleted.
+async function deletePublication(admin: AdminClient, userId: string, publicationId: string) {
+  const { publication, adapter, accessToken, account } = await loadPublication(admin, userId, publicationId);
+  if (!adapter.deletePost) {
+    throw new Error(`${adapter.name} does not allow deleting posts through its API`);
+  }
+
+  const postIds = publication.thread_post_ids?.length
+    ? [...publication.thread_post_ids].reverse()
+    : [publication.external_post_id];
+  for (const postId of postIds) {
+    await adapter.deletePost(accessToken, postId, account);
+  }
+
+  const { error } = await admin
+    .from("post_publications")
+    .update({ deleted_at: new Date().toISOString() })
+    .eq("id", publicationId);
+
+  if (error) throw new Error(error.message);
+}
+
+// Replaces the text of a published post and marks it edited.
+async function editPublication(
+  admin: AdminClient,
+  userId: string,
+  publicationId: string,
+  text: string
+) {
+  const { publication, adapter, accessToken, account } = await loadPublication(admin, userId, publicationId);
+  if (!adapter.editPost) {
+    throw new Error(`${adapter.name} does not allow editing posts through its API`);
+  }
+
+  await adapter.editPost(accessToken, publication.external_post_id, text, account);
+
+  const { error } = await admin
+    .from("post_publications")
+    .update({ edited_at: new Date().toISOString() })
+    .eq("id", publicationId);
+
+  if (error) throw new Error(error.message);
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { status: 200, headers: corsHeaders });
+  }
+
+  const admin = createAdminClient();
+
+  const jwt = req.headers.get("Authorization")?.replace("Bearer ", "") ?? "";
+  const { data: { user } } = await admin.auth.getUser(jwt);
+  if (!user) {
+    return jsonResponse({ error: "Unauthorized" }, 401);
+  }
+
+  try {
+    const body: RequestBody = await req.json();
+
+    if (body.action === "publish") {
+      return jsonResponse(await publishPost(admin, user.id, body));
+    }
+    if (!body.publicationId) {
+      return jsonResponse({ error: "publicationId is required" }, 400);
+    }
+    if (body.action === "delete") {
+      await deletePublication(admin, user.id, body.publicationId);
+      return jsonResponse({ success: true });
+    }
+    if (body.action === "edit" && body.text !== undefined) {
+      await editPublication(admin, user.id, body.publicationId, body.text);
+      return jsonResponse({ success: true });
+    }
+    return jsonResponse({ error: "Invalid request" }, 400);
+  } catch (err) {
+    console.error("publication-actions failed:", err);
+    return jsonResponse({
+      error: err instanceof Error ? err.message : "Request failed",
+    }, 500);
+  }
+});
@@ -0,0 +1,315 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createAdminClient, type AdminClient } from "../_shared/supabaseAdmin.ts";
+import { getValidToken } from "../_shared/tokens.ts";
+import { publicationStore } from "../_shared/publicationStore.ts";
+import { markNeedsReconnect } from "../_shared/accounts.ts";
+import {
+  applyVariant,
+  buildPublicationRecord,
+  firstCommentPoster,
+  type ErrorCategory,
+  hasTimeFor,
+  isRetryable,
+  MAX_RETRY_WAIT_MS,
+  mediaFromUrls,
+  type MediaMetadata,
+  PlatformApiError,
+  postFinder,
+  publishOnce,
+  publishToPlatform,
+  publishWithRetry,
+  resumeFrom,
+  STALE_PENDING_MS,
+  type PlatformVariant,
+  type PostLink,
+  type PostOptions,
+  type PostResult,
+} from "../_shared/platforms.ts";
+
+// Posts run one at a time and uploads can take minutes to process, so a run
+// claims few and stops starting new ones once RUN_BUDGET_MS is spent; the
+// rest go back to the queue. Polling and retry waits give up at
+// WAIT_DEADLINE_MS, well inside the edge function's wall-clock limit.
+const BATCH_SIZE = 5;
+const RUN_BUDGET_MS = 60_000;
+const WAIT_DEADLINE_MS = 120_000;
+// A post still `publishing` after this long belonged to a run that was
+// killed, and is claimed again. Its pending rows were written up to
+// WAIT_DEADLINE_MS into that run and have to count as stale by the time it
+// is reclaimed, or publishOnce would take them for a publish still running.
+const STALE_AFTER_SECONDS = (STALE_PENDING_MS + WAIT_DEADLINE_MS) / 1000 + 60;
+// Rate-limited or transient attempts one account may log before the post is
+// failed instead of being pushed back again.
+const MAX_DEFERRALS = 3;
+
+interface ClaimedPost {
+  id: string;
+  user_id: string;
+  content: string;
+  account_ids: string[] | null;
+  media_urls: string[] | null;
+  platform_options: Record<string, PostOptions> | null;
+  link: PostLink | null;
+  media_metadata: Record<string, MediaMetadata> | null;
+  platform_variants: Record<string, PlatformVariant> | null;
+  first_comment: string | null;
+}
+
+interface PlatformOutcome {
+  platform: string;
+  handle?: string;
+  success: boolean;
+  error?: string;
+  errorCategory?: ErrorCategory;
+  // Set when the account is rate limited for longer than is worth waiting
+  // in this run; the post is rescheduled for then.
+  retryAt?: string;
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+async function publishClaimedPost(
+  admin: AdminClient,
+  post: ClaimedPost,
+  deadline: number
+): Promise<PlatformOutcome[]> {
+  const accountIds = [...new Set(post.account_ids ?? [])];
+
+  const { data: accounts, error } = await admin
+    .from("social_accounts")
+    .select("id, platform, account_handle, external_account_id, instance_url, access_token, refresh_token, token_expires_at")
+    .eq("user_id", post.user_id)
+    .eq("is_connected", true)
+    .in("id", accountIds);
+
+  if (error) {
+    throw new Error(`Failed to load social accounts: ${error.message}`);
+  }
+
+  // Newest first, so the first match per account is its latest attempt.
+  const { data: previous } = await admin
+    .from("post_publications")
+    .select("social_account_id, status, thread_post_ids, error_category")
+    .eq("content_post_id", post.id)
+    .order("attempted_at", { ascending: false });
+
+  const media = mediaFromUrls(post.media_urls ?? [], post.media_metadata ?? {});
+  const store = publicationStore(admin);
+
+  return await Promise.all(
+    accountIds.map(async (accountId): Promise<PlatformOutcome> => {
+      const account = accounts?.find((acc) => acc.id === accountId);
+      if (!account) {
+        return { platform: "account", success: false, error: "Account is no longer connected" };
+      }
+
+      const platform = account.platform;
+      const handle = account.account_handle;
+      const latest = previous?.find((p) => p.social_account_id === account.id);
+      if (latest?.status === "published") {
+        return { platform, handle, success: true };
+      }
+
+      const target = {
+        userId: post.user_id,
+        contentPostId: post.id,
+        accountId: account.id,
+        platform,
+      };
+      const content = {
+        ...applyVariant(
+          {
+            text: post.content,
+            media,
+            link: post.link ?? undefined,
+            firstComment: post.first_comment ?? undefined,
+          },
+          post.platform_variants?.[platform]
+        ),
+        options: post.platform_options?.[platform],
+      };
+      const accountContext = {
+        externalId: account.external_account_id,
+        handle: account.account_handle,
+        instanceUrl: account.instance_url ?? undefined,
+      };
+
+      let accessToken: string;
+      try {
+        accessToken = await getValidToken(admin, account);
+      } catch (err) {
+        // A refresh the platform rejects means the account has to be
+        // reconnected; outages and waiting on another refresh are transient.
+        const result: PostResult = {
+          success: false,
+          error: err instanceof Error ? err.message : "Failed to refresh token",
+          errorCategory: err instanceof PlatformApiError && err.category !== "invalid" ? err.category : "auth",
+        };
+        const { error: recordError } = await admin
+          .from("post_publications")
+          .insert(buildPublicationRecord(target, result));
+
+        if (recordError) {
+          console.error("Failed to record publication:", post.id, account.id, recordError);
+        }
+        if (result.errorCategory === "auth") {
+          await markNeedsReconnect(admin, account.id, result.error);
+        }
+        return { platform, handle, success: false, error: result.error, errorCategory: result.errorCategory };
+      }
+
+      let result: PostResult;
+      try {
+        result = await publishWithRetry(
+          (resume, attempt) => publishOnce(
+            store,
+            target,
+            attempt,
+            (idempotencyKey) => publishToPlatform(
+              platform,
+              accessToken,
+              content,
+              accountContext,
+              { ...resume, idempotencyKey, deadline }
+            ),
+            postFinder(platform, accessToken, content, accountContext),
+            firstCommentPoster(platform, accessToken, content, accountContext)
+          ),
+          resumeFrom(latest),
+          deadline
+        );
+      } catch (err) {
+        // Only storing the pending row throws; nothing was posted.
+        result = {
+          success: false,
+          error: err instanceof Error ? err.message : "Failed to publish post",
+          errorCategory: "transient",
+        };
+      }
+
+      if (result.errorCategory === "auth") {
+        await markNeedsReconnect(admin, account.id, result.error);
+      }
+
+      const deferrals = previous?.filter((p) =>
+        p.social_account_id === account.id && isRetryable(p.error_category)
+      ).length ?? 0;
+      // Waits cut short by the run's deadline are picked up by the next run.
+      const outOfTime = isRetryable(result.errorCategory) && !hasTimeFor(MAX_RETRY_WAIT_MS, deadline);
+      const retryAt = deferrals >= MAX_DEFERRALS
+        ? undefined
+        : result.errorCategory === "rate_limited" && (result.retryAfterMs ?? 0) > MAX_RETRY_WAIT_MS
+        ? new Date(Date.now() + result.retryAfterMs!).toISOString()
+        : outOfTime
+        ? new Date().toISOString()
+        : undefined;
+
+      return {
+        platform,
+        handle,
+        success: result.success,
+        error: result.error,
+        errorCategory: result.errorCategory,
+        retryAt,
+      };
+    })
+  );
+}
+
+Deno.serve(async (req: Request) => {
+  const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+  if (!serviceRoleKey || req.headers.get("Authorization") !== `Bearer ${serviceRoleKey}`) {
+    return jsonResponse({ error: "Unauthorized" }, 401);
+  }
+
+  const admin = createAdminClient();
+  const startedAt = Date.now();
+  const deadline = startedAt + WAIT_DEADLINE_MS;
+
+  // claim_due_content_posts flips due rows to 'publishing' under
+  // FOR UPDATE SKIP LOCKED, so overlapping invocations never see the same row.
+  // Rows left in 'publishing' by a run that died are claimed again.
+  const { data: posts, error: claimError } = await admin.rpc("claim_due_content_posts", {
+    batch_size: BATCH_SIZE,
+    stale_after_seconds: STALE_AFTER_SECONDS,
+  });
+
+  if (claimError) {
+    console.error("Failed to claim scheduled posts:", claimError);
+    return jsonResponse({ error: claimError.message }, 500);
+  }
+
+  const summary = [];
+
+  for (const post of (posts ?? []) as ClaimedPost[]) {
+    if (Date.now() - startedAt > RUN_BUDGET_MS) {
+      const { error: releaseError } = await admin
+        .from("content_posts")
+        .update({ status: "scheduled", publish_started_at: null, updated_at: new Date().toISOString() })
+        .eq("id", post.id);
+
+      if (releaseError) {
+        console.error("Failed to requeue post:", post.id, releaseError);
+      }
+      summary.push({ id: post.id, published: false, requeued: true });
+      continue;
+    }
+
+    let outcomes: PlatformOutcome[];
+    try {
+      outcomes = await publishClaimedPost(admin, post, deadline);
+    } catch (err) {
+      outcomes = [{
+        platform: "all",
+        success: false,
+        error: err instanceof Error ? err.message : "Failed to publish post",
+      }];
+    }
+
+    const failures = outcomes.filter((outcome) => !outcome.success);
+    const published = outcomes.length > 0 && failures.length === 0;
+    const publishError = failures.length > 0
+      ? failures
+        .map((f) =>
+          `${f.platform}${f.handle ? ` ${f.handle}` : ""}${f.errorCategory ? ` (${f.errorCategory})` : ""}: ${f.error}`
+        )
+        .join("\n")
+      : "No accounts selected";
+
+    // Accounts that already published are skipped on the next run, so a post
+    // held up only by rate limits goes back to the queue for the latest reset.
+    const retryAt = failures.length > 0 && failures.every((f) => f.retryAt)
+      ? failures.map((f) => f.retryAt!).sort().at(-1)
+      : undefined;
+
+    const { error: updateError } = await admin
+      .from("content_posts")
+      .update(retryAt
+        ? {
+          status: "scheduled",
+          scheduled_for: retryAt,
+          publish_error: publishError,
+          updated_at: new Date().toISOString(),
+        }
+        : {
+          status: published ? "published" : "failed",
+          published_at: published ? new Date().toISOString() : null,
+          publish_error: published ? null : publishError,
+          updated_at: new Date().toISOString(),
+        })
+      .eq("id", post.id);
+
+    if (updateError) {
+      console.error("Failed to update post status:", post.id, updateError);
+    }
+
+    summary.push({ id: post.id, published, outcomes });
+  }
+
+  return jsonResponse({ processed: summary.length, posts: summary });
+});
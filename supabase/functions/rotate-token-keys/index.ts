@@ -0,0 +1,88 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createAdminClient } from "../_shared/supabaseAdmin.ts";
+import {
+  decryptOptionalToken,
+  encryptOptionalToken,
+  needsReencryption,
+} from "../_shared/tokenCrypto.ts";
+
+const PAGE_SIZE = 500;
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+// Re-encrypts every stored token that is still plain text or was encrypted
+// with an older key, so the old key can be removed from TOKEN_ENCRYPTION_KEYS
+// afterwards. Safe to run repeatedly.
+Deno.serve(async (req: Request) => {
+  const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+  if (!serviceRoleKey || req.headers.get("Authorization") !== `Bearer ${serviceRoleKey}`) {
+    return jsonResponse({ error: "Unauthorized" }, 401);
+  }
+
+  const admin = createAdminClient();
+  let rotated = 0;
+  let skipped = 0;
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data: accounts, error } = await admin
+      .from("social_accounts")
+      .select("id, access_token, refresh_token")
+      .order("id")
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      console.error("Failed to load social accounts:", error);
+      return jsonResponse({ error: error.message, rotated }, 500);
+    }
+
+    for (const account of accounts ?? []) {
+      if (!await needsReencryption(account.access_token) && !await needsReencryption(account.refresh_token)) {
+        continue;
+      }
+
+      // Matching on the old values leaves a row alone if its tokens were
+      // refreshed in the meantime; the refresh already used the current key.
+      let query = admin
+        .from("social_accounts")
+        .update({
+          access_token: await encryptOptionalToken(await decryptOptionalToken(account.access_token)),
+          refresh_token: await encryptOptionalToken(await decryptOptionalToken(account.refresh_token)),
+        })
+        .eq("id", account.id);
+      query = account.access_token === null
+        ? query.is("access_token", null)
+        : query.eq("access_token", account.access_token);
+      query = account.refresh_token === null
+        ? query.is("refresh_token", null)
+        : query.eq("refresh_token", account.refresh_token);
+
+      const { data: updated, error: updateError } = await query.select("id");
+      if (updateError) {
+        console.error("Failed to re-encrypt tokens:", account.id, updateError);
+      }
+      if (updated?.length) {
+        rotated++;
+      } else {
+        skipped++;
+      }
+    }
+
+    if (!accounts || accounts.length < PAGE_SIZE) {
+      break;
+    }
+  }
+
+  // Pending connections only live for minutes; dropping the expired ones
+  // leaves nothing behind under an old key.
+  await admin
+    .from("oauth_pending_connections")
+    .delete()
+    .lt("expires_at", new Date().toISOString());
+
+  return jsonResponse({ rotated, skipped });
+});
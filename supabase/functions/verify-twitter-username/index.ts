@@ -1,4 +1,7 @@
 import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { getPlatformAdapter } from "../_shared/platforms.ts";
+
+const twitterAdapter = getPlatformAdapter("twitter")!;
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -73,65 +76,25 @@ Deno.serve(async (req: Request) => {
     }
 
     console.log('Calling Twitter API for:', cleanUsername);
-    
-    const response = await fetch(
-      `https://api.twitter.com/2/users/by/username/${cleanUsername}`,
-      {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${bearerToken}`,
-        },
-      }
-    );
 
-    console.log('Twitter API response status:', response.status);
-
-    if (!response.ok) {
-      if (response.status === 404) {
-        console.log('Username not found:', cleanUsername);
-        return new Response(
-          JSON.stringify({
-            exists: false,
-            error: 'Username not found on Twitter',
-          }),
-          {
-            status: 200,
-            headers: {
-              ...corsHeaders,
-              "Content-Type": "application/json",
-            },
-          }
-        );
-      }
-
-      const errorText = await response.text();
-      console.error('Twitter API error:', response.status, errorText);
-
-      return new Response(
-        JSON.stringify({
-          exists: false,
-          error: `Twitter API error: ${response.status}`,
-        }),
-        {
-          status: 200,
-          headers: {
-            ...corsHeaders,
-            "Content-Type": "application/json",
-          },
-        }
-      );
+    let result: VerifyResult;
+    try {
+      const profile = await twitterAdapter.verifyUsername!(cleanUsername, bearerToken);
+      result = {
+        exists: true,
+        username: profile.handle.replace(/^@/, ''),
+        displayName: profile.name,
+        profileUrl: twitterAdapter.profileUrl!(profile.handle),
+      };
+    } catch (err) {
+      // Unknown usernames and API errors both come back as exists: false.
+      console.error('Twitter API error:', err);
+      result = {
+        exists: false,
+        error: err instanceof Error ? err.message : 'Failed to look up username',
+      };
     }
 
-    const data = await response.json();
-    console.log('Twitter API success:', JSON.stringify(data));
-    
-    const result: VerifyResult = {
-      exists: true,
-      username: data.data.username,
-      displayName: data.data.name,
-      profileUrl: `https://twitter.com/${data.data.username}`,
-    };
-
     return new Response(JSON.stringify(result), {
       status: 200,
       headers: {
@@ -0,0 +1,95 @@
+/*
+  # Scheduled Post Publishing Worker
+
+  1. Changes to `content_posts`
+    - Allow a new `publishing` status while the worker is posting a row
+    - Add `publish_error` (text) with the per-platform failure details
+    - Add `publish_started_at` (timestamptz) set when the worker claims a row
+    - Partial index on due scheduled posts
+
+  2. New Functions
+    - `claim_due_content_posts(batch_size)` atomically moves due `scheduled`
+      rows to `publishing` and returns them. Rows are locked with
+      FOR UPDATE SKIP LOCKED so concurrent workers never claim the same post.
+      Only callable with the service role.
+
+  3. Cron
+    - `publish-scheduled-posts` runs every minute through pg_cron + pg_net
+      and invokes the edge function of the same name.
+    - Requires two Vault secrets: `project_url` (https://<ref>.supabase.co)
+      and `service_role_key`.
+*/
+
+ALTER TABLE public.content_posts
+  DROP CONSTRAINT IF EXISTS content_posts_status_check;
+
+ALTER TABLE public.content_posts
+  ADD CONSTRAINT content_posts_status_check
+  CHECK (status IN ('draft', 'scheduled', 'publishing', 'published', 'failed'));
+
+ALTER TABLE public.content_posts ADD COLUMN IF NOT EXISTS publish_error text;
+ALTER TABLE public.content_posts ADD COLUMN IF NOT EXISTS publish_started_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_content_posts_due
+  ON public.content_posts(scheduled_for)
+  WHERE status = 'scheduled';
+
+-- ============================================================================
+-- CLAIM FUNCTION
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.claim_due_content_posts(batch_size integer DEFAULT 20)
+RETURNS SETOF public.content_posts
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE sql
+AS $$
+  UPDATE public.content_posts AS cp
+  SET status = 'publishing',
+      publish_started_at = now(),
+      publish_error = NULL,
+      updated_at = now()
+  WHERE cp.id IN (
+    SELECT id
+    FROM public.content_posts
+    WHERE status = 'scheduled'
+      AND scheduled_for <= now()
+    ORDER BY scheduled_for
+    LIMIT batch_size
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING cp.*;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_due_content_posts(integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_due_content_posts(integer) TO service_role;
+
+-- ============================================================================
+-- CRON TRIGGER
+-- ============================================================================
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'publish-scheduled-posts') THEN
+    PERFORM cron.unschedule('publish-scheduled-posts');
+  END IF;
+END $$;
+
+SELECT cron.schedule(
+  'publish-scheduled-posts',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url')
+      || '/functions/v1/publish-scheduled-posts',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
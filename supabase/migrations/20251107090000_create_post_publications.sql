@@ -0,0 +1,70 @@
+/*
+  # Per-Account Post Publications
+
+  1. New Tables
+    - `post_publications`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references profiles)
+      - `content_post_id` (uuid, references content_posts, nullable for ad-hoc publishes)
+      - `social_account_id` (uuid, references social_accounts)
+      - `platform` (text) platform of the account at publish time
+      - `external_post_id` (text) id of the post created on the platform
+      - `permalink` (text) public URL of that post
+      - `status` (text: published, failed)
+      - `error` (text) failure message from the platform
+      - `attempted_at` (timestamptz)
+      - `created_at` (timestamptz)
+
+  2. Security
+    - Enable RLS; users manage only their own publication records
+
+  3. Notes
+    - Replaces the `posts` table that `publishPost` wrote to but no
+      migration ever created
+*/
+
+CREATE TABLE IF NOT EXISTS public.post_publications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  content_post_id uuid REFERENCES public.content_posts(id) ON DELETE CASCADE,
+  social_account_id uuid REFERENCES public.social_accounts(id) ON DELETE CASCADE NOT NULL,
+  platform text NOT NULL,
+  external_post_id text,
+  permalink text,
+  status text NOT NULL CHECK (status IN ('published', 'failed')),
+  error text,
+  attempted_at timestamptz DEFAULT now(),
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE public.post_publications ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_post_publications_user_id
+  ON public.post_publications(user_id);
+
+CREATE INDEX IF NOT EXISTS idx_post_publications_content_post_id
+  ON public.post_publications(content_post_id);
+
+CREATE INDEX IF NOT EXISTS idx_post_publications_social_account_id
+  ON public.post_publications(social_account_id);
+
+CREATE POLICY "Users can read own publications"
+  ON public.post_publications FOR SELECT
+  TO authenticated
+  USING ((select auth.uid()) = user_id);
+
+CREATE POLICY "Users can insert own publications"
+  ON public.post_publications FOR INSERT
+  TO authenticated
+  WITH CHECK ((select auth.uid()) = user_id);
+
+CREATE POLICY "Users can update own publications"
+  ON public.post_publications FOR UPDATE
+  TO authenticated
+  USING ((select auth.uid()) = user_id)
+  WITH CHECK ((select auth.uid()) = user_id);
+
+CREATE POLICY "Users can delete own publications"
+  ON public.post_publications FOR DELETE
+  TO authenticated
+  USING ((select auth.uid()) = user_id);
@@ -0,0 +1,25 @@
+/*
+  # Thread Publishing
+
+  1. Changes to `content_posts`
+    - Add `platform_options` (jsonb) with per-platform settings keyed by
+      platform id, e.g. `{"twitter": {"thread": {"numbering": true}}}`
+
+  2. Changes to `post_publications`
+    - Add `thread_post_ids` (text[]) with every post id of a thread in order
+    - Allow a `partial` status for threads that stopped part way; the next
+      attempt resumes after the last id instead of reposting from the start
+*/
+
+ALTER TABLE public.content_posts
+  ADD COLUMN IF NOT EXISTS platform_options jsonb NOT NULL DEFAULT '{}';
+
+ALTER TABLE public.post_publications
+  ADD COLUMN IF NOT EXISTS thread_post_ids text[] NOT NULL DEFAULT '{}';
+
+ALTER TABLE public.post_publications
+  DROP CONSTRAINT IF EXISTS post_publications_status_check;
+
+ALTER TABLE public.post_publications
+  ADD CONSTRAINT post_publications_status_check
+  CHECK (status IN ('published', 'partial', 'failed'));
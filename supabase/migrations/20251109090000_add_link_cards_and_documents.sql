@@ -0,0 +1,21 @@
+/*
+  # Link Cards and Document Media
+
+  1. Changes to `content_posts`
+    - Add `link` (jsonb, nullable) holding an optional link preview card:
+      `{"url": "...", "title": "...", "description": "..."}`
+
+  2. Storage
+    - Allow PDF uploads to the `post-media` bucket so documents can be
+      attached through `media_urls` like images and videos
+*/
+
+ALTER TABLE public.content_posts ADD COLUMN IF NOT EXISTS link jsonb;
+
+UPDATE storage.buckets
+SET allowed_mime_types = ARRAY[
+  'image/jpeg', 'image/png', 'image/gif', 'image/webp',
+  'video/mp4', 'video/webm', 'video/quicktime',
+  'application/pdf'
+]
+WHERE id = 'post-media';
@@ -0,0 +1,12 @@
+/*
+  # Media Metadata
+
+  1. Changes to `content_posts`
+    - Add `media_metadata` (jsonb, default `{}`) keyed by media URL:
+      `{"<url>": {"width": 1080, "height": 1350, "durationSeconds": 12.5, "sizeBytes": 123456}}`
+    - Captured by the composer at upload time so publishers can validate
+      aspect ratios and durations before calling platform APIs
+*/
+
+ALTER TABLE public.content_posts
+  ADD COLUMN IF NOT EXISTS media_metadata jsonb NOT NULL DEFAULT '{}'::jsonb;
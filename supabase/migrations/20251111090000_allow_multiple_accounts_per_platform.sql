@@ -0,0 +1,28 @@
+/*
+  # Allow Multiple Accounts per Platform
+
+  1. Changes to `social_accounts`
+    - Replace the unique constraint on (user_id, platform) with one on
+      (user_id, platform, account_handle), so a user can connect several
+      Facebook Pages, each stored as its own row with its own page token
+    - Reconnecting the same account still upserts onto the existing row
+
+  2. Notes
+    - Facebook rows created before this change hold the user's profile id and
+      user token rather than a Page; they must be reconnected to publish
+*/
+
+ALTER TABLE social_accounts
+  DROP CONSTRAINT IF EXISTS social_accounts_user_id_platform_key;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint
+    WHERE conname = 'social_accounts_user_id_platform_account_handle_key'
+  ) THEN
+    ALTER TABLE social_accounts
+    ADD CONSTRAINT social_accounts_user_id_platform_account_handle_key
+    UNIQUE (user_id, platform, account_handle);
+  END IF;
+END $$;
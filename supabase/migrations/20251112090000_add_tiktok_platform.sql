@@ -0,0 +1,14 @@
+/*
+  # Add TikTok Platform
+
+  1. Changes to `social_accounts`
+    - Allow 'tiktok' in the `platform` CHECK constraint so TikTok accounts
+      connected through OAuth can be saved
+*/
+
+ALTER TABLE social_accounts
+  DROP CONSTRAINT IF EXISTS social_accounts_platform_check;
+
+ALTER TABLE social_accounts
+  ADD CONSTRAINT social_accounts_platform_check
+  CHECK (platform IN ('twitter', 'linkedin', 'instagram', 'facebook', 'tiktok'));
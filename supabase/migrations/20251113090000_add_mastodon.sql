@@ -0,0 +1,44 @@
+/*
+  # Mastodon Support
+
+  1. New Tables
+    - `mastodon_apps` - OAuth client registered on each Mastodon instance
+      - `id` (uuid, primary key)
+      - `instance_url` (text) instance origin, e.g. https://mastodon.social
+      - `redirect_uri` (text) callback URL the client was registered with
+      - `client_id` (text)
+      - `client_secret` (text)
+      - `created_at` (timestamptz)
+      - Unique on (instance_url, redirect_uri) so each deployment origin gets
+        its own registration
+
+  2. Changes to `social_accounts`
+    - Allow 'mastodon' in the `platform` CHECK constraint
+    - Add `instance_url` (text, nullable) holding the instance the account
+      lives on
+
+  3. Security
+    - Enable RLS on `mastodon_apps` with no policies: client secrets are only
+      read by the `mastodon-oauth` edge function using the service role
+*/
+
+CREATE TABLE IF NOT EXISTS public.mastodon_apps (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  instance_url text NOT NULL,
+  redirect_uri text NOT NULL,
+  client_id text NOT NULL,
+  client_secret text NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (instance_url, redirect_uri)
+);
+
+ALTER TABLE public.mastodon_apps ENABLE ROW LEVEL SECURITY;
+
+ALTER TABLE public.social_accounts ADD COLUMN IF NOT EXISTS instance_url text;
+
+ALTER TABLE public.social_accounts
+  DROP CONSTRAINT IF EXISTS social_accounts_platform_check;
+
+ALTER TABLE public.social_accounts
+  ADD CONSTRAINT social_accounts_platform_check
+  CHECK (platform IN ('twitter', 'linkedin', 'instagram', 'facebook', 'tiktok', 'mastodon'));
@@ -0,0 +1,16 @@
+/*
+  # Add Bluesky Platform
+
+  1. Changes to `social_accounts`
+    - Allow 'bluesky' in the `platform` CHECK constraint
+    - Bluesky rows store the session's access and refresh JWTs in
+      `access_token` / `refresh_token` and the account's PDS in `instance_url`;
+      the app password itself is never stored
+*/
+
+ALTER TABLE public.social_accounts
+  DROP CONSTRAINT IF EXISTS social_accounts_platform_check;
+
+ALTER TABLE public.social_accounts
+  ADD CONSTRAINT social_accounts_platform_check
+  CHECK (platform IN ('twitter', 'linkedin', 'instagram', 'facebook', 'tiktok', 'mastodon', 'bluesky'));
@@ -0,0 +1,13 @@
+/*
+  # Add Threads Platform
+
+  1. Changes to `social_accounts`
+    - Allow 'threads' in the `platform` CHECK constraint
+*/
+
+ALTER TABLE public.social_accounts
+  DROP CONSTRAINT IF EXISTS social_accounts_platform_check;
+
+ALTER TABLE public.social_accounts
+  ADD CONSTRAINT social_accounts_platform_check
+  CHECK (platform IN ('twitter', 'linkedin', 'instagram', 'facebook', 'threads', 'tiktok', 'mastodon', 'bluesky'));
@@ -0,0 +1,19 @@
+/*
+  # Telegram and Discord Destinations
+
+  1. Changes to `social_accounts`
+    - Allow 'telegram' and 'discord' in the `platform` CHECK constraint
+    - Destinations need no OAuth: a Telegram row stores the bot token in
+      `access_token` and the chat id in `account_handle`; a Discord row stores
+      the webhook URL in `access_token` and the webhook id in `account_handle`
+*/
+
+ALTER TABLE public.social_accounts
+  DROP CONSTRAINT IF EXISTS social_accounts_platform_check;
+
+ALTER TABLE public.social_accounts
+  ADD CONSTRAINT social_accounts_platform_check
+  CHECK (platform IN (
+    'twitter', 'linkedin', 'instagram', 'facebook', 'threads', 'tiktok',
+    'mastodon', 'bluesky', 'telegram', 'discord'
+  ));
@@ -0,0 +1,12 @@
+/*
+  # Per-platform Content Variants
+
+  1. Changes to `content_posts`
+    - Add `platform_variants` (jsonb, default `{}`) keyed by platform id:
+      `{"twitter": {"text": "..."}, "instagram": {"text": "...", "mediaUrls": ["..."]}}`
+    - `text` replaces `content` for that platform and `mediaUrls` picks a
+      subset of `media_urls`; anything left unset falls back to the base post
+*/
+
+ALTER TABLE public.content_posts
+  ADD COLUMN IF NOT EXISTS platform_variants jsonb NOT NULL DEFAULT '{}'::jsonb;
@@ -0,0 +1,24 @@
+/*
+  # Publish Attempts
+
+  1. Changes to `post_publications`
+    - Every try is now its own row: publishing retries rate limits and
+      transient failures, recording each attempt before the next one
+    - Add `attempt` (integer, default 1) numbering the tries of one publish
+    - Add `error_category` (text, nullable) classifying a failure:
+      `rate_limited` and `transient` are retried, `auth`, `duplicate` and
+      `invalid` are final
+*/
+
+ALTER TABLE public.post_publications
+  ADD COLUMN IF NOT EXISTS attempt integer NOT NULL DEFAULT 1;
+
+ALTER TABLE public.post_publications
+  ADD COLUMN IF NOT EXISTS error_category text;
+
+ALTER TABLE public.post_publications
+  DROP CONSTRAINT IF EXISTS post_publications_error_category_check;
+
+ALTER TABLE public.post_publications
+  ADD CONSTRAINT post_publications_error_category_check
+  CHECK (error_category IN ('rate_limited', 'transient', 'auth', 'duplicate', 'invalid'));
@@ -0,0 +1,30 @@
+/*
+  # Idempotent Publishing
+
+  1. Changes to `post_publications`
+    - Add `idempotency_key` (text, nullable), `<content_post_id>:<social_account_id>`,
+      shared by every attempt to publish one content post to one account;
+      ad-hoc publishes without a content post have none
+    - Allow a `pending` status: the row is written before the platform is
+      called and updated with the result afterwards
+
+  2. Indexes
+    - Unique index on `idempotency_key` over pending and published rows, so a
+      second attempt finds the first one in flight or already published
+      instead of posting the same content again; failed and partial rows
+      do not hold the key and can be retried
+*/
+
+ALTER TABLE public.post_publications
+  ADD COLUMN IF NOT EXISTS idempotency_key text;
+
+ALTER TABLE public.post_publications
+  DROP CONSTRAINT IF EXISTS post_publications_status_check;
+
+ALTER TABLE public.post_publications
+  ADD CONSTRAINT post_publications_status_check
+  CHECK (status IN ('pending', 'published', 'partial', 'failed'));
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_post_publications_idempotency_key
+  ON public.post_publications(idempotency_key)
+  WHERE status IN ('pending', 'published');
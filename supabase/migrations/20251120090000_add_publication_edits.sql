@@ -0,0 +1,15 @@
+/*
+  # Editing and Deleting Published Posts
+
+  1. Changes to `post_publications`
+    - Add `deleted_at` (timestamptz, nullable) set once every post the
+      publication created was deleted from its network
+    - Add `edited_at` (timestamptz, nullable) set whenever its text was
+      edited on the network after publishing
+*/
+
+ALTER TABLE public.post_publications
+  ADD COLUMN IF NOT EXISTS deleted_at timestamptz;
+
+ALTER TABLE public.post_publications
+  ADD COLUMN IF NOT EXISTS edited_at timestamptz;
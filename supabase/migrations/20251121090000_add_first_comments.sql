@@ -0,0 +1,23 @@
+/*
+  # First Comments
+
+  1. Changes to `content_posts`
+    - Add `first_comment` (text, nullable) posted as a comment on each new
+      post right after it is published; `platform_variants` can override it
+      per platform with `firstComment`
+
+  2. Changes to `post_publications`
+    - Add `first_comment_id` (text, nullable) id of the comment on the network
+    - Add `first_comment_error` (text, nullable) why the comment failed; the
+      publication keeps its own status, so a failed comment never marks a
+      published post as failed
+*/
+
+ALTER TABLE public.content_posts
+  ADD COLUMN IF NOT EXISTS first_comment text;
+
+ALTER TABLE public.post_publications
+  ADD COLUMN IF NOT EXISTS first_comment_id text;
+
+ALTER TABLE public.post_publications
+  ADD COLUMN IF NOT EXISTS first_comment_error text;
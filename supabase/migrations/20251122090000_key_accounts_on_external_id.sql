@@ -0,0 +1,69 @@
+/*
+  # Key Accounts on Platform Ids and Target Accounts
+
+  1. Changes to `social_accounts`
+    - Add `external_account_id` (text, not null) the network's own id for
+      the user, Page or channel; handles can be renamed, ids cannot
+    - Existing rows are backfilled with their handle and adopt the real id
+      the next time they are reconnected
+    - Replace the unique constraint on (user_id, platform, account_handle)
+      with one on (user_id, platform, external_account_id)
+
+  2. Changes to `content_posts`
+    - Add `account_ids` (uuid[], default '{}') the connected accounts a post
+      is published to
+    - Existing posts are backfilled with the oldest connected account for
+      each of their platforms
+
+  3. Notes
+    - `platforms` is kept as the set of platforms behind `account_ids`; it
+      still keys `platform_options` and `platform_variants`
+*/
+
+ALTER TABLE social_accounts
+  ADD COLUMN IF NOT EXISTS external_account_id text;
+
+UPDATE social_accounts
+SET external_account_id = account_handle
+WHERE external_account_id IS NULL;
+
+ALTER TABLE social_accounts
+  ALTER COLUMN external_account_id SET NOT NULL;
+
+ALTER TABLE social_accounts
+  DROP CONSTRAINT IF EXISTS social_accounts_user_id_platform_account_handle_key;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint
+    WHERE conname = 'social_accounts_user_id_platform_external_account_id_key'
+  ) THEN
+    ALTER TABLE social_accounts
+    ADD CONSTRAINT social_accounts_user_id_platform_external_account_id_key
+    UNIQUE (user_id, platform, external_account_id);
+  END IF;
+END $$;
+
+ALTER TABLE content_posts
+  ADD COLUMN IF NOT EXISTS account_ids uuid[] NOT NULL DEFAULT '{}';
+
+UPDATE content_posts
+SET account_ids = matched.ids
+FROM (
+  SELECT post_id, array_agg(account_id) AS ids
+  FROM (
+    SELECT DISTINCT ON (cp.id, sa.platform)
+      cp.id AS post_id,
+      sa.id AS account_id
+    FROM content_posts cp
+    JOIN social_accounts sa
+      ON sa.user_id = cp.user_id
+      AND sa.is_connected = true
+      AND sa.platform = ANY(cp.platforms)
+    ORDER BY cp.id, sa.platform, sa.created_at
+  ) firsts
+  GROUP BY post_id
+) matched
+WHERE content_posts.id = matched.post_id
+  AND content_posts.account_ids = '{}';
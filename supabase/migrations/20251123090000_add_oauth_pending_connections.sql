@@ -0,0 +1,30 @@
+/*
+  # Pending OAuth Connections
+
+  1. New Tables
+    - `oauth_pending_connections` - user token held by the `oauth-token` edge
+      function between listing the Pages a user manages and connecting the
+      ones they pick
+      - `user_id` (uuid, references profiles)
+      - `platform` (text)
+      - `access_token` (text)
+      - `expires_at` (timestamptz) when the pick has to be made by
+      - `created_at` (timestamptz)
+      - Primary key on (user_id, platform); starting a new connection
+        replaces the previous one
+
+  2. Security
+    - Enable RLS with no policies: the token is only read by the edge
+      function using the service role
+*/
+
+CREATE TABLE IF NOT EXISTS public.oauth_pending_connections (
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  platform text NOT NULL,
+  access_token text NOT NULL,
+  expires_at timestamptz NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (user_id, platform)
+);
+
+ALTER TABLE public.oauth_pending_connections ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,41 @@
+/*
+  # Encrypt Social Tokens at Rest
+
+  1. Changes to `social_accounts`
+    - `access_token` and `refresh_token` now hold AES-GCM ciphertext written
+      by the edge functions, as enc:<key id>:<iv>:<ciphertext>; the key never
+      leaves the functions' TOKEN_ENCRYPTION_KEYS secret
+    - Tokens saved before this change stay readable until the
+      `rotate-token-keys` function encrypts them
+
+  2. Changes to `oauth_pending_connections`
+    - `access_token` is encrypted the same way
+
+  3. Security
+    - Signed-in users can no longer read or write the token columns of
+      their own accounts: SELECT, INSERT and UPDATE are granted on the other
+      columns only, so `select('*')` from the web app fails and columns
+      have to be listed
+    - Connecting, refreshing and publishing run in edge functions using the
+      service role, which keeps full access
+*/
+
+COMMENT ON COLUMN public.social_accounts.access_token IS
+  'Encrypted by the edge functions; never readable with the anon key';
+COMMENT ON COLUMN public.social_accounts.refresh_token IS
+  'Encrypted by the edge functions; never readable with the anon key';
+
+REVOKE SELECT, INSERT, UPDATE ON public.social_accounts FROM anon, authenticated;
+
+GRANT SELECT (
+  id, user_id, platform, account_name, account_handle, external_account_id,
+  is_connected, token_expires_at, instance_url, created_at, updated_at
+) ON public.social_accounts TO authenticated;
+
+GRANT INSERT (
+  user_id, platform, account_name, account_handle, external_account_id, is_connected
+) ON public.social_accounts TO authenticated;
+
+GRANT UPDATE (
+  account_name, account_handle, is_connected, updated_at
+) ON public.social_accounts TO authenticated;
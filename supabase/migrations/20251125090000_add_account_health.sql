@@ -0,0 +1,60 @@
+/*
+  # Account Connection Health
+
+  1. Changes to `social_accounts`
+    - Add `health_state` (text, default 'healthy'): healthy, expiring,
+      needs_reconnect or revoked
+    - Add `health_error` (text, nullable) what the last check ran into
+    - Add `health_checked_at` (timestamptz, nullable) when the account was
+      last checked
+    - Signed-in users can read the three columns; only the edge functions
+      write them
+
+  2. Cron
+    - `check-account-health` runs every 30 minutes through pg_cron + pg_net.
+      It refreshes tokens nearing expiry and probes each account with an
+      identity call. Uses the same Vault secrets as `publish-scheduled-posts`.
+*/
+
+ALTER TABLE public.social_accounts
+  ADD COLUMN IF NOT EXISTS health_state text NOT NULL DEFAULT 'healthy';
+
+ALTER TABLE public.social_accounts
+  DROP CONSTRAINT IF EXISTS social_accounts_health_state_check;
+
+ALTER TABLE public.social_accounts
+  ADD CONSTRAINT social_accounts_health_state_check
+  CHECK (health_state IN ('healthy', 'expiring', 'needs_reconnect', 'revoked'));
+
+ALTER TABLE public.social_accounts ADD COLUMN IF NOT EXISTS health_error text;
+ALTER TABLE public.social_accounts ADD COLUMN IF NOT EXISTS health_checked_at timestamptz;
+
+GRANT SELECT (health_state, health_error, health_checked_at)
+  ON public.social_accounts TO authenticated;
+
+-- ============================================================================
+-- CRON TRIGGER
+-- ============================================================================
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'check-account-health') THEN
+    PERFORM cron.unschedule('check-account-health');
+  END IF;
+END $$;
+
+SELECT cron.schedule(
+  'check-account-health',
+  '*/30 * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url')
+      || '/functions/v1/check-account-health',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
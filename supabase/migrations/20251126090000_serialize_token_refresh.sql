@@ -0,0 +1,46 @@
+/*
+  # Serialize Token Refreshes
+
+  X and TikTok rotate the refresh token on every use, so two requests
+  refreshing the same account at once leave one of them holding a token the
+  platform has already invalidated.
+
+  1. Changes to `social_accounts`
+    - Add `token_refresh_started_at` (timestamptz) set while an edge function
+      is refreshing the account's tokens and cleared when it is done
+
+  2. New Functions
+    - `claim_token_refresh(account_id, lease_seconds)` sets
+      `token_refresh_started_at` and returns true unless another refresh is
+      already in progress. A claim older than `lease_seconds` is treated as
+      abandoned, so a crashed function cannot block the account for good.
+      Only callable with the service role.
+*/
+
+ALTER TABLE public.social_accounts ADD COLUMN IF NOT EXISTS token_refresh_started_at timestamptz;
+
+-- ============================================================================
+-- CLAIM FUNCTION
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.claim_token_refresh(account_id uuid, lease_seconds integer DEFAULT 30)
+RETURNS boolean
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE sql
+AS $$
+  WITH claimed AS (
+    UPDATE public.social_accounts AS sa
+    SET token_refresh_started_at = now()
+    WHERE sa.id = account_id
+      AND (
+        sa.token_refresh_started_at IS NULL
+        OR sa.token_refresh_started_at < now() - make_interval(secs => lease_seconds)
+      )
+    RETURNING sa.id
+  )
+  SELECT EXISTS (SELECT 1 FROM claimed);
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_token_refresh(uuid, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_token_refresh(uuid, integer) TO service_role;
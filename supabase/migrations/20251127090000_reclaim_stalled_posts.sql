@@ -0,0 +1,53 @@
+/*
+  # Reclaim Stalled Scheduled Posts
+
+  A post claimed by `publish-scheduled-posts` stays in `publishing` if the
+  edge function is killed part way, e.g. at its wall-clock limit.
+
+  1. Changes to `claim_due_content_posts`
+    - Also claims `publishing` rows whose `publish_started_at` is older than
+      `stale_after_seconds`; the worker resumes them through the
+      per-account idempotency keys, so nothing is posted twice
+    - Default batch size lowered to 5
+
+  2. Indexes
+    - Partial index on `publishing` rows by `publish_started_at`
+*/
+
+DROP FUNCTION IF EXISTS public.claim_due_content_posts(integer);
+
+CREATE OR REPLACE FUNCTION public.claim_due_content_posts(
+  batch_size integer DEFAULT 5,
+  stale_after_seconds integer DEFAULT 600
+)
+RETURNS SETOF public.content_posts
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE sql
+AS $$
+  UPDATE public.content_posts AS cp
+  SET status = 'publishing',
+      publish_started_at = now(),
+      publish_error = NULL,
+      updated_at = now()
+  WHERE cp.id IN (
+    SELECT id
+    FROM public.content_posts
+    WHERE (status = 'scheduled' AND scheduled_for <= now())
+      OR (
+        status = 'publishing'
+        AND publish_started_at < now() - make_interval(secs => stale_after_seconds)
+      )
+    ORDER BY scheduled_for
+    LIMIT batch_size
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING cp.*;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_due_content_posts(integer, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_due_content_posts(integer, integer) TO service_role;
+
+CREATE INDEX IF NOT EXISTS idx_content_posts_publishing
+  ON public.content_posts(publish_started_at)
+  WHERE status = 'publishing';